@@ -6,15 +6,19 @@ import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import Lesson from "@/pages/Lesson";
 import NewLesson from "@/pages/NewLesson";
+import AuthPage from "@/pages/AuthPage";
 import Layout from "@/components/Layout";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 
 function Router() {
   return (
     <Layout>
       <Switch>
-        <Route path="/" component={Home} />
-        <Route path="/lesson/:id" component={Lesson} />
-        <Route path="/new-lesson" component={NewLesson} />
+        <ProtectedRoute path="/" component={Home} />
+        <ProtectedRoute path="/lesson/:id" component={Lesson} />
+        <ProtectedRoute path="/new-lesson" component={NewLesson} />
+        <Route path="/auth" component={AuthPage} />
         <Route component={NotFound} />
       </Switch>
     </Layout>
@@ -24,8 +28,10 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -1,25 +1,28 @@
 import { useState, useRef, useEffect } from 'react';
+import { useLocation } from 'wouter';
 import { X, ChevronUp, Send } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAI } from '@/hooks/use-ai';
-import { Chat, Message } from '@/types';
-
-// Track which messages have been processed for lesson creation
-const processedMessages = new Set<number>();
+import { queryClient } from '@/lib/queryClient';
+import ToolCallCard from './ToolCallCard';
+import MessageActions from './MessageActions';
+import { Chat, ChatContext, LessonJob, Message } from '@/types';
 
 interface ChatPanelProps {
   lessonId?: string;
+  context?: ChatContext; // The slide, code and test results on screen
   onNewLesson?: (title: string) => void;
 }
 
-export default function ChatPanel({ lessonId, onNewLesson }: ChatPanelProps) {
+export default function ChatPanel({ lessonId, context, onNewLesson }: ChatPanelProps) {
   const [isMinimized, setIsMinimized] = useState(false);
   const [message, setMessage] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const [agentPersona, setAgentPersona] = useState<'mumu' | 'baloo'>('mumu');
+  const [, navigate] = useLocation();
   
-  const { chat, messages, sendMessage, isLoading } = useAI(lessonId);
+  const { chat, messages, sendMessage, isLoading, isStreaming } = useAI(lessonId, context);
 
   // Scroll to bottom of chat when new messages arrive
   useEffect(() => {
@@ -47,90 +50,14 @@ export default function ChatPanel({ lessonId, onNewLesson }: ChatPanelProps) {
     }
   };
 
+  // Open a lesson as soon as the job generating it finishes
+  const handleLessonReady = (job: LessonJob) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/lessons'] });
+    if (onNewLesson && job.lessonTitle) onNewLesson(job.lessonTitle);
+    if (job.lessonId != null) navigate(`/lesson/${job.lessonId}`);
+  };
+
   const formatMessage = (content: string, messageId: number = -1) => {
-    // Check for lesson creation metadata and handle it
-    if (content.includes('__LESSON_CREATED__:')) {
-      const metaMatch = content.match(/__LESSON_CREATED__:(\d+):(.+)$/);
-      
-      if (metaMatch && onNewLesson && !processedMessages.has(messageId)) {
-        // Extract lessonId and title
-        const lessonTitle = metaMatch[2];
-        
-        // Mark this message as processed
-        processedMessages.add(messageId);
-        
-        // Call the onNewLesson callback with the title
-        setTimeout(() => {
-          if (onNewLesson) onNewLesson(lessonTitle);
-        }, 500);
-        
-        // Remove the metadata from the message for display
-        content = content.replace(/__LESSON_CREATED__:\d+:.+$/, '');
-      } else {
-        // Always remove the metadata from the message for display, 
-        // even if we've already processed it
-        content = content.replace(/__LESSON_CREATED__:\d+:.+$/, '');
-      }
-    }
-    
-    // Check for the lesson generation in progress message
-    if (content.includes('__LESSON_GENERATING__:')) {
-      // This triggers the actual generation
-      const metaMatch = content.match(/__LESSON_GENERATING__:([^:]+):([^:]+)$/);
-      
-      if (metaMatch && !processedMessages.has(messageId)) {
-        // Extract topic and style
-        const topic = metaMatch[1];
-        const style = metaMatch[2];
-        
-        // Mark this message as processed
-        processedMessages.add(messageId);
-        
-        // Send a follow-up message to create the lesson with the selected style
-        setTimeout(() => {
-          sendMessage(`Create a new lesson about ${topic} with the ${style} style`, 'baloo');
-        }, 500);
-        
-        // Remove the metadata from the message for display
-        content = content.replace(/__LESSON_GENERATING__:[^:]+:[^:]+$/, '');
-      } else {
-        // Always remove the metadata from the message for display
-        content = content.replace(/__LESSON_GENERATING__:[^:]+:[^:]+$/, '');
-      }
-    }
-    
-    // Check for style selection options in the lesson proposal
-    // Look for the "Choose a Style" section in the message
-    if (content.includes('Choose a Style:') && 
-        (content.includes('Brown Markdown') || 
-         content.includes('Neon Racer') || 
-         content.includes('Interaction Galore') || 
-         content.includes('Practical Project'))) {
-      
-      // Extract the topic from the message
-      const topicMatch = content.match(/about\s+\*\*([^*]+)\*\*/i) || 
-                         content.match(/Learn(?:ing)?\s+([^-]+)/i) ||
-                         content.match(/lesson\s+(?:about|on)\s+([^!.]+)/i);
-      
-      let topic = "programming";
-      if (topicMatch && topicMatch[1]) {
-        topic = topicMatch[1].trim();
-      }
-      
-      // Remove the "Choose a Style" section from the content
-      const styleSection = content.indexOf('## 🎨 Choose a Style:');
-      if (styleSection !== -1) {
-        content = content.substring(0, styleSection).trim();
-      }
-      
-      // Add a hidden suggestion marker that will trigger the UI but won't be visible
-      // The actual marker will be in a separate div controlled by the component
-      content += `\n\n<span class="hidden">__SUGGESTION__:STYLE_SELECT:${topic}</span>`;
-    }
-    
-    // Handle any existing suggestion markers and hide them
-    content = content.replace(/__SUGGESTION__:STYLE_SELECT:[^_\n]+(\n|$)/g, '');
-    
     // Improve formatting for section headers and line spacing
     content = content.replace(/\n(#+\s+[^\n]+)/g, '\n\n$1');
     content = content.replace(/\n\*\*([^*\n]+)\*\*/g, '\n\n**$1**');
@@ -159,7 +86,7 @@ export default function ChatPanel({ lessonId, onNewLesson }: ChatPanelProps) {
     });
     
     // Make messages more upbeat with emojis if they're from the assistant
-    if (!content.includes('__SUGGESTION__') && messageId !== -1) {
+    if (messageId !== -1) {
       // Add emojis to common phrases if not already present
       const emojifyPhrases = [
         { phrase: /\b(hello|hi|hey)\b/i, emoji: '👋' },
@@ -208,7 +135,7 @@ export default function ChatPanel({ lessonId, onNewLesson }: ChatPanelProps) {
       });
       
       // Add random enthusiastic phrases at the end of messages
-      if (Math.random() < 0.3 && !formattedContent.includes('__SUGGESTION__')) {
+      if (Math.random() < 0.3) {
         const enthusiasticPhrases = [
           " Super duper! 🎊",
           " Woohoo! 🥳",
@@ -326,145 +253,34 @@ export default function ChatPanel({ lessonId, onNewLesson }: ChatPanelProps) {
                     <div className="text-sm text-gray-800">
                       {/* Render the message content with HTML */}
                       <div dangerouslySetInnerHTML={{ __html: formatMessage(msg.content, msg.id) }} />
-                      
-                      {/* Check if this message contains a style selection request */}
-                      {(msg.content.includes('__SUGGESTION__:STYLE_SELECT:') || 
-                       (msg.content.includes('Proposed Slides:') && 
-                        !msg.content.includes('style for the lesson about') &&
-                        !processedMessages.has(msg.id))) && (
-                        <div className="mt-3">
-                          <div className="mb-2 text-center">
-                            <span className="text-sm font-semibold text-primary">Choose a style for your lesson:</span>
-                          </div>
-                          <div className="grid grid-cols-2 gap-2">
-                            {/* Extract the topic from the message content */}
-                            {(() => {
-                              // First try to extract from suggestion tag
-                              let match = msg.content.match(/__SUGGESTION__:STYLE_SELECT:([^_]+)$/);
-                              
-                              // If not found, try to extract from the message context
-                              if (!match) {
-                                // Try to find "lesson about X" pattern
-                                match = msg.content.match(/lesson (?:about|on) ([^.,!?:]+)/i);
-                                
-                                // Try to find "Introduction to X" as often found in slides
-                                if (!match) {
-                                  match = msg.content.match(/Introduction to ([^.,!?:]+)/i);
-                                }
-                                
-                                // Try to find topic in slide titles
-                                if (!match && msg.content.includes('Proposed Slides:')) {
-                                  match = msg.content.match(/Proposed Slides:[\s\S]*?([a-zA-Z]+ [a-zA-Z]+)/i);
-                                }
-                              }
-                              
-                              const topic = match ? match[1].trim() : 'programming';
-                              
-                              return (
-                                <>
-                                  <button 
-                                    className="bg-amber-100 border border-amber-200 hover:bg-amber-200 text-amber-800 py-2 px-3 rounded-md text-xs transition-colors flex flex-col items-center"
-                                    onClick={() => {
-                                      // Instead of sending directly, set the text in the input field for user to confirm
-                                      setMessage(`Use the Brown Markdown 🏖️ style for the lesson about ${topic}`);
-                                      // Focus on the input field
-                                      setTimeout(() => inputRef.current?.focus(), 0);
-                                    }}
-                                  >
-                                    <span className="text-lg mb-1">🏖️</span>
-                                    <span className="font-medium">Brown Markdown</span>
-                                    <span className="text-xs text-amber-600 mt-1">Relaxed & earthy</span>
-                                  </button>
-                                  
-                                  <button 
-                                    className="bg-indigo-100 border border-indigo-200 hover:bg-indigo-200 text-indigo-800 py-2 px-3 rounded-md text-xs transition-colors flex flex-col items-center"
-                                    onClick={() => {
-                                      // Instead of sending directly, set the text in the input field for user to confirm
-                                      setMessage(`Use the Neon Racer 🏎️ style for the lesson about ${topic}`);
-                                      // Focus on the input field
-                                      setTimeout(() => inputRef.current?.focus(), 0);
-                                    }}
-                                  >
-                                    <span className="text-lg mb-1">🏎️</span>
-                                    <span className="font-medium">Neon Racer</span>
-                                    <span className="text-xs text-indigo-600 mt-1">Vibrant & energetic</span>
-                                  </button>
-                                  
-                                  <button 
-                                    className="bg-pink-100 border border-pink-200 hover:bg-pink-200 text-pink-800 py-2 px-3 rounded-md text-xs transition-colors flex flex-col items-center"
-                                    onClick={() => {
-                                      // Instead of sending directly, set the text in the input field for user to confirm
-                                      setMessage(`Use the Interaction Galore 💃🏽 style for the lesson about ${topic}`);
-                                      // Focus on the input field
-                                      setTimeout(() => inputRef.current?.focus(), 0);
-                                    }}
-                                  >
-                                    <span className="text-lg mb-1">💃🏽</span>
-                                    <span className="font-medium">Interaction Galore</span>
-                                    <span className="text-xs text-pink-600 mt-1">Interactive & fun</span>
-                                  </button>
-                                  
-                                  <button 
-                                    className="bg-blue-100 border border-blue-200 hover:bg-blue-200 text-blue-800 py-2 px-3 rounded-md text-xs transition-colors flex flex-col items-center"
-                                    onClick={() => {
-                                      // Instead of sending directly, set the text in the input field for user to confirm
-                                      setMessage(`Use the Practical Project Building 🚀 style for the lesson about ${topic}`);
-                                      // Focus on the input field
-                                      setTimeout(() => inputRef.current?.focus(), 0);
-                                    }}
-                                  >
-                                    <span className="text-lg mb-1">🚀</span>
-                                    <span className="font-medium">Practical Project</span>
-                                    <span className="text-xs text-blue-600 mt-1">Progressive & hands-on</span>
-                                  </button>
-                                </>
-                              )
-                            })()}
-                          </div>
-                          
-                          {/* "You decide!" option spans the full width */}
-                          {(() => {
-                            // First try to extract from suggestion tag
-                            let match = msg.content.match(/__SUGGESTION__:STYLE_SELECT:([^_]+)$/);
-                              
-                            // If not found, try to extract from the message context
-                            if (!match) {
-                              // Try to find "lesson about X" pattern
-                              match = msg.content.match(/lesson (?:about|on) ([^.,!?:]+)/i);
-                              
-                              // Try to find "Introduction to X" as often found in slides
-                              if (!match) {
-                                match = msg.content.match(/Introduction to ([^.,!?:]+)/i);
-                              }
-                              
-                              // Try to find topic in slide titles
-                              if (!match && msg.content.includes('Proposed Slides:')) {
-                                match = msg.content.match(/Proposed Slides:[\s\S]*?([a-zA-Z]+ [a-zA-Z]+)/i);
-                              }
-                            }
-                            
-                            const topic = match ? match[1].trim() : 'programming';
-                            
-                            return (
-                              <div className="mt-2">
-                                <button 
-                                  className="w-full bg-green-100 border border-green-200 hover:bg-green-200 text-green-800 py-2 px-3 rounded-md text-xs transition-colors flex flex-col items-center"
-                                  onClick={() => {
-                                    // Instead of sending directly, set the text in the input field for user to confirm
-                                    setMessage(`You decide the best style for the lesson about ${topic}`);
-                                    // Focus on the input field
-                                    setTimeout(() => inputRef.current?.focus(), 0);
-                                  }}
-                                >
-                                  <span className="text-lg mb-1">✨</span>
-                                  <span className="font-medium">You decide!</span>
-                                  <span className="text-xs text-green-600 mt-1">Pick the best style for this topic</span>
-                                </button>
-                              </div>
-                            )
-                          })()}
+
+                      {/* Actions the assistant took on the lesson while replying */}
+                      {msg.toolCalls && msg.toolCalls.length > 0 && (
+                        <div className="mt-2 space-y-1">
+                          {msg.toolCalls.map(call => (
+                            <ToolCallCard
+                              key={call.id}
+                              call={call}
+                              agentName={agentPersona === 'mumu' ? 'Mumu' : 'Baloo'}
+                            />
+                          ))}
                         </div>
                       )}
+                      
+                      {/* Style choices, lesson progress and other structured parts of the reply */}
+                      {chat && msg.actions && msg.actions.length > 0 && (
+                        <MessageActions
+                          chatId={chat.id}
+                          messageId={msg.id}
+                          actions={msg.actions}
+                          onChooseStyle={(text) => {
+                            // Put the choice in the input field for the user to confirm
+                            setMessage(text);
+                            setTimeout(() => inputRef.current?.focus(), 0);
+                          }}
+                          onLessonReady={handleLessonReady}
+                        />
+                      )}
                     </div>
                     <span className="text-xs text-gray-500 block mt-1">
                       {formatTime(msg.timestamp)}
@@ -480,7 +296,8 @@ export default function ChatPanel({ lessonId, onNewLesson }: ChatPanelProps) {
                 </div>
               ))
             )}
-            {isLoading && (
+            {/* Typing indicator until the reply starts streaming in */}
+            {isLoading && !isStreaming && (
               <div className="flex items-start">
                 <div className="flex-shrink-0 mr-3">
                   <div className="w-8 h-8 bg-primary-100 rounded-full flex items-center justify-center">
@@ -1,6 +1,8 @@
 import { useState, useEffect, useRef } from "react";
 import { X, Terminal, Globe, Play, ArrowRight, CheckCircle, XCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { buildPreviewDocument } from "@/lib/preview";
+import type { WorkspaceFile } from "@/lib/workspace";
 
 interface CodeConsoleProps {
   output: string[];
@@ -11,12 +13,13 @@ interface CodeConsoleProps {
     passed: boolean;
     message?: string;
   }[];
+  previewFiles?: WorkspaceFile[]; // Workspace to render live in the preview tab
 }
 
-export default function CodeConsole({ output, onClose, testResults = [] }: CodeConsoleProps) {
+export default function CodeConsole({ output, onClose, testResults = [], previewFiles }: CodeConsoleProps) {
   const consoleRef = useRef<HTMLDivElement>(null);
   const previewRef = useRef<HTMLIFrameElement>(null);
-  const [activeTab, setActiveTab] = useState<"console" | "preview">("console");
+  const [activeTab, setActiveTab] = useState<"console" | "preview">(previewFiles ? "preview" : "console");
   const [previewHtml, setPreviewHtml] = useState("");
 
   // Auto-scroll to the bottom of console on new output
@@ -26,9 +29,19 @@ export default function CodeConsole({ output, onClose, testResults = [] }: CodeC
     }
   }, [output]);
 
+  // Rebuild the workspace preview shortly after the student stops typing
+  useEffect(() => {
+    if (activeTab !== "preview" || !previewFiles) return;
+    
+    const timeout = setTimeout(() => {
+      setPreviewHtml(buildPreviewDocument(previewFiles));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [activeTab, previewFiles]);
+
   // Generate HTML preview from the output
   useEffect(() => {
-    if (activeTab === "preview") {
+    if (activeTab === "preview" && !previewFiles) {
       try {
         const htmlContent = generateHtmlPreview(output);
         setPreviewHtml(htmlContent);
@@ -36,7 +49,7 @@ export default function CodeConsole({ output, onClose, testResults = [] }: CodeC
         console.error("Failed to generate HTML preview:", error);
       }
     }
-  }, [activeTab, output]);
+  }, [activeTab, output, previewFiles]);
 
   const generateHtmlPreview = (consoleOutput: string[]) => {
     // Extract any HTML content from the console output
@@ -62,7 +75,7 @@ export default function CodeConsole({ output, onClose, testResults = [] }: CodeC
     // If no HTML was found, create a basic document with the output
     // Filter out obvious non-visual content
     const visualOutput = consoleOutput
-      .filter(line => !line.startsWith('//') && !line.startsWith('Error:') && !line.startsWith('---'))
+      .filter(line => !line.startsWith('//') && !line.startsWith('Error:') && !line.startsWith('Warning:') && !line.startsWith('---'))
       .join('<br />');
     
     return `
@@ -86,6 +99,8 @@ export default function CodeConsole({ output, onClose, testResults = [] }: CodeC
   const formatOutput = (text: string) => {
     if (text.startsWith('Error:')) {
       return <span className="text-red-400">{text}</span>;
+    } else if (text.startsWith('Warning:')) {
+      return <span className="text-yellow-300">{text}</span>;
     } else if (text.startsWith('✓')) {
       return <span className="text-green-400">{text}</span>;
     } else if (text.startsWith('✗')) {
@@ -168,7 +183,7 @@ export default function CodeConsole({ output, onClose, testResults = [] }: CodeC
                       <p className={`text-xs font-medium ${result.passed ? 'text-green-400' : 'text-red-400'}`}>
                         {result.name}
                       </p>
-                      <p className="text-xs text-gray-400">
+                      <p className="text-xs text-gray-400 whitespace-pre-wrap">
                         {result.message}
                       </p>
                     </div>
@@ -1,47 +1,72 @@
 import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Play, Terminal, Save, FileText, Settings, X } from "lucide-react";
+import { Play, Square, Terminal, Save, FileText, Settings, X } from "lucide-react";
 import CodeConsole from "./CodeConsole";
-import { runCode } from "@/lib/codeRunner";
-import { runTests, TestResult } from "@/lib/codeTests";
+import { runCode, detectRuntime, formatConsoleMessage, DEFAULT_RUN_TIMEOUT_MS, type ConsoleMessage } from "@/lib/codeRunner";
+import { gradeOnServer, runTests, TestResult } from "@/lib/codeTests";
+import { runWorkspace, serializeWorkspace, type WorkspaceFile } from "@/lib/workspace";
 
 interface CodeEditorProps {
   initialCode?: string;
   filename?: string;
+  language?: string; // Lesson language, used when the filename doesn't pick a runtime
+  files?: WorkspaceFile[]; // Multi-file web workspace shown as tabs with a live preview
   tests?: { 
     id: string;
     name: string;
     description: string;
     validation: string;
-    type: 'regex' | 'js';
+    type: 'regex' | 'js' | 'dom' | 'unit';
+    file?: string;
   }[];
-  onTestsComplete?: (results: TestResult[]) => void;
+  slideId?: string; // JavaScript code is graded against this slide's tests on the server
+  onTestsComplete?: (results: TestResult[], recorded: boolean) => void; // recorded: the server saved the attempt
   onCodeChange?: (code: string) => void;
+  timeoutMs?: number; // How long code may run before it is stopped
 }
 
 export default function CodeEditor({ 
   initialCode = "// Write your code here\n", 
   filename = "script.js",
+  language,
+  files: initialFiles = [],
   tests = [],
+  slideId,
   onTestsComplete,
-  onCodeChange
+  onCodeChange,
+  timeoutMs = DEFAULT_RUN_TIMEOUT_MS
 }: CodeEditorProps) {
   const [code, setCode] = useState(initialCode);
-  const [showConsole, setShowConsole] = useState(false);
+  const [files, setFiles] = useState<WorkspaceFile[]>(initialFiles);
+  const [activeFile, setActiveFile] = useState(initialFiles[0]?.name || "");
+  const isWorkspace = files.length > 0;
+  const [showConsole, setShowConsole] = useState(isWorkspace);
   const [consoleOutput, setConsoleOutput] = useState<string[]>([]);
   const [isRunning, setIsRunning] = useState(false);
   const [testResults, setTestResults] = useState<TestResult[]>([]);
   const editorRef = useRef<HTMLTextAreaElement>(null);
+  const runRef = useRef<{ stop: () => void } | null>(null);
+  const runtime = detectRuntime(filename, language);
+
+  // Stop any running code when the editor goes away
+  useEffect(() => {
+    return () => runRef.current?.stop();
+  }, []);
 
   // Update the parent component when code changes
   useEffect(() => {
     if (onCodeChange) {
-      onCodeChange(code);
+      onCodeChange(isWorkspace ? serializeWorkspace(files) : code);
     }
-  }, [code, onCodeChange]);
+  }, [code, files, isWorkspace, onCodeChange]);
 
   const handleCodeChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setCode(e.target.value);
+    const value = e.target.value;
+    if (isWorkspace) {
+      setFiles(prev => prev.map(file => file.name === activeFile ? { ...file, content: value } : file));
+    } else {
+      setCode(value);
+    }
   };
 
   const handleRunCode = async () => {
@@ -50,7 +75,7 @@ export default function CodeEditor({
     setConsoleOutput(["// Running code..."]);
     
     // Check if code contains script tags and warn the user
-    if (code.includes('<script>') || code.includes('</script>')) {
+    if (!isWorkspace && runtime === 'javascript' && (code.includes('<script>') || code.includes('</script>'))) {
       setConsoleOutput(prev => [
         ...prev,
         "// Note: <script> tags detected. They will be automatically removed during execution.",
@@ -59,7 +84,7 @@ export default function CodeEditor({
     }
     
     // Check if code begins with language identifier
-    if (/^(javascript|js)(\s|$)/.test(code.trim())) {
+    if (!isWorkspace && runtime === 'javascript' && /^(javascript|js)(\s|$)/.test(code.trim())) {
       setConsoleOutput(prev => [
         ...prev,
         "// Note: 'javascript' or 'js' language identifier detected at the beginning of the code.",
@@ -68,37 +93,75 @@ export default function CodeEditor({
     }
     
     try {
-      // Run the code and capture console output
-      const { output } = await runCode(
-        code,
-        (log) => setConsoleOutput(prev => [...prev, log]),
-        (error) => setConsoleOutput(prev => [...prev, `Error: ${error}`])
-      );
+      const handleConsoleMessage = (message: ConsoleMessage) =>
+        setConsoleOutput(prev => [...prev, formatConsoleMessage(message)]);
+      let results: TestResult[] = [];
+      let recorded = false;
+      
+      if (isWorkspace) {
+        // Render the workspace in a sandboxed page; tests run against it
+        const run = runWorkspace(files, tests, handleConsoleMessage, timeoutMs);
+        runRef.current = run;
+        const outcome = await run.result;
+        
+        // A stopped run is incomplete, so don't grade it
+        if (outcome.stopped) return;
+        results = outcome.results;
+      } else {
+        // Run the code in a worker, streaming console output as it arrives
+        const run = runCode(code, handleConsoleMessage, {
+          language: runtime,
+          timeoutMs,
+          onStatus: (status) => setConsoleOutput(prev => [...prev, `// ${status}`])
+        });
+        runRef.current = run;
+        const { output, stopped } = await run.result;
+        
+        // A stopped run is incomplete, so don't grade it
+        if (stopped) return;
+        if (tests.length > 0) {
+          results = await runTests(code, tests, output);
+          if (slideId && runtime === 'javascript') {
+            results = await gradeOnServer(code, slideId, tests, results);
+            recorded = true;
+          }
+        }
+      }
       
-      // Run tests if provided
+      // Report test results if provided
       if (tests.length > 0) {
-        const results = await runTests(code, tests, output);
         setTestResults(results);
         
         // Add test results to console output
-        const testOutput = results.map(result => 
-          `${result.passed ? '✓' : '✗'} Test: ${result.name} - ${result.passed ? 'Passed!' : 'Failed'}`
-        ).join('\n');
+        const testOutput = results.map(result => {
+          const summary = `${result.passed ? '✓' : '✗'} Test: ${result.name} - ${result.passed ? 'Passed!' : 'Failed'}`;
+          
+          // Show why a test failed when it has more to say than "Test failed"
+          if (!result.passed && result.message && result.message !== 'Test failed') {
+            return `${summary}\n${result.message.split('\n').map(line => `    ${line}`).join('\n')}`;
+          }
+          return summary;
+        }).join('\n');
         
         setConsoleOutput(prev => [...prev, '\n--- Test Results ---', testOutput]);
         
         if (onTestsComplete) {
-          onTestsComplete(results);
+          onTestsComplete(results, recorded);
         }
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       setConsoleOutput(prev => [...prev, `Error: ${errorMessage}`]);
     } finally {
+      runRef.current = null;
       setIsRunning(false);
     }
   };
 
+  const handleStopCode = () => {
+    runRef.current?.stop();
+  };
+
   const handleToggleConsole = () => {
     setShowConsole(!showConsole);
   };
@@ -108,12 +171,30 @@ export default function CodeEditor({
       {/* Editor Toolbar */}
       <div className="bg-gray-800 text-white py-2 px-4 flex items-center justify-between">
         <div className="flex items-center">
-          <div className="mr-4">
-            <span className="text-sm font-medium mr-2">File:</span>
-            <span className="bg-gray-700 text-gray-200 px-2 py-1 rounded text-xs font-mono">
-              {filename}
-            </span>
-          </div>
+          {isWorkspace ? (
+            <div className="mr-4 flex space-x-1">
+              {files.map(file => (
+                <button
+                  key={file.name}
+                  onClick={() => setActiveFile(file.name)}
+                  className={`px-2 py-1 rounded text-xs font-mono ${
+                    file.name === activeFile
+                      ? "bg-gray-700 text-gray-200"
+                      : "text-gray-400 hover:text-gray-200 hover:bg-gray-700"
+                  }`}
+                >
+                  {file.name}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="mr-4">
+              <span className="text-sm font-medium mr-2">File:</span>
+              <span className="bg-gray-700 text-gray-200 px-2 py-1 rounded text-xs font-mono">
+                {filename}
+              </span>
+            </div>
+          )}
           <div className="flex space-x-1">
             <button className="hover:bg-gray-700 p-1.5 rounded">
               <FileText className="h-4 w-4 text-gray-300" />
@@ -127,14 +208,23 @@ export default function CodeEditor({
           </div>
         </div>
         <div className="flex items-center">
-          <Button 
-            onClick={handleRunCode} 
-            disabled={isRunning}
-            className="bg-green-500 hover:bg-green-600 text-white py-1.5 px-4 rounded-md text-sm flex items-center font-medium"
-          >
-            <Play className="h-4 w-4 mr-1" />
-            Run Code
-          </Button>
+          {isRunning ? (
+            <Button 
+              onClick={handleStopCode} 
+              className="bg-red-500 hover:bg-red-600 text-white py-1.5 px-4 rounded-md text-sm flex items-center font-medium"
+            >
+              <Square className="h-4 w-4 mr-1" />
+              Stop
+            </Button>
+          ) : (
+            <Button 
+              onClick={handleRunCode} 
+              className="bg-green-500 hover:bg-green-600 text-white py-1.5 px-4 rounded-md text-sm flex items-center font-medium"
+            >
+              <Play className="h-4 w-4 mr-1" />
+              Run Code
+            </Button>
+          )}
           <Button 
             onClick={handleToggleConsole}
             variant="outline"
@@ -152,7 +242,7 @@ export default function CodeEditor({
         <div className="flex-1 bg-gray-900 text-gray-100 overflow-hidden flex flex-col">
           <textarea
             ref={editorRef}
-            value={code}
+            value={isWorkspace ? files.find(file => file.name === activeFile)?.content ?? "" : code}
             onChange={handleCodeChange}
             className="overflow-auto flex-1 font-mono text-sm p-4 bg-gray-900 text-gray-100 resize-none outline-none w-full"
             spellCheck="false"
@@ -165,6 +255,7 @@ export default function CodeEditor({
             output={consoleOutput} 
             onClose={() => setShowConsole(false)}
             testResults={testResults}
+            previewFiles={isWorkspace ? files : undefined}
           />
         )}
       </div>
@@ -0,0 +1,23 @@
+import { Link } from "wouter";
+import { BookOpen, ArrowRight } from "lucide-react";
+
+interface LessonCreatedCardProps {
+  lessonId: number;
+  title: string;
+}
+
+export default function LessonCreatedCard({ lessonId, title }: LessonCreatedCardProps) {
+  return (
+    <Link
+      href={`/lesson/${lessonId}`}
+      className="mt-2 flex items-center border border-gray-200 bg-white hover:bg-primary/5 rounded-md p-2 text-xs transition-colors"
+    >
+      <BookOpen className="h-4 w-4 mr-2 text-primary flex-shrink-0" />
+      <span className="flex-1 font-medium text-gray-700">{title}</span>
+      <span className="flex items-center text-primary">
+        Open lesson
+        <ArrowRight className="h-3.5 w-3.5 ml-1" />
+      </span>
+    </Link>
+  );
+}
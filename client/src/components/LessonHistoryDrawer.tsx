@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Revision, RevisionSource } from "@/types";
+
+interface LessonHistoryDrawerProps {
+  lessonId: string;
+  currentSlideId?: string;
+  canRestore?: boolean; // Shared lessons can be browsed but not restored
+}
+
+// Who made a change, e.g. "Edited by you"
+const describeSource = (source: RevisionSource, userId?: number) => {
+  const who = (id?: number) => id === userId ? 'you' : 'another user';
+  switch (source.kind) {
+    case 'initial':
+      return 'Original version';
+    case 'user':
+      return `Edited by ${who(source.userId)}`;
+    case 'assistant':
+      return source.userId != null
+        ? `Assistant edit (${source.tool}), accepted by ${who(source.userId)}`
+        : `Changed by the assistant (${source.tool})`;
+    case 'restore':
+      return `Revision ${source.revision} restored by ${who(source.userId)}`;
+  }
+};
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Drawer listing the recorded changes to a lesson and its slides, with a way
+ * to put any earlier version back
+ */
+export default function LessonHistoryDrawer({ lessonId, currentSlideId, canRestore = false }: LessonHistoryDrawerProps) {
+  const [open, setOpen] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const historyKey = [`/api/lessons/${lessonId}/history`];
+  const { data: history = [], isLoading } = useQuery<Revision[]>({
+    queryKey: historyKey,
+    enabled: open,
+    staleTime: 0, // Changes arrive from the chat and the editor too, so refetch whenever it opens
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: Revision) => {
+      const url = revision.slideId != null
+        ? `/api/slides/${revision.slideId}/restore/${revision.revision}`
+        : `/api/lessons/${lessonId}/restore/${revision.revision}`;
+      await apiRequest('POST', url);
+      return revision;
+    },
+    onSuccess: (revision) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/lessons/${lessonId}`] });
+      queryClient.invalidateQueries({ queryKey: historyKey });
+      toast({ title: `Restored revision ${revision.revision}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Restore failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // The newest revision of each slide (and of the lesson) is what is showing now
+  const latest = new Map<number | null, number>();
+  for (const revision of history) {
+    latest.set(revision.slideId, Math.max(latest.get(revision.slideId) ?? 0, revision.revision));
+  }
+
+  const renderList = (revisions: Revision[], emptyText: string) => {
+    if (isLoading) {
+      return <div className="flex items-center text-sm text-gray-500 py-4"><Loader2 className="h-4 w-4 mr-2 animate-spin" />Loading history…</div>;
+    }
+    if (revisions.length === 0) {
+      return <p className="text-sm text-gray-500 py-4">{emptyText}</p>;
+    }
+    return (
+      <ul className="space-y-2">
+        {revisions.map(revision => {
+          const isCurrent = latest.get(revision.slideId) === revision.revision;
+          const title = typeof revision.snapshot.title === 'string' ? revision.snapshot.title : '';
+          return (
+            <li key={revision.id} className="border border-gray-200 rounded-md p-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-700">
+                  {revision.slideId != null ? `Slide "${title}"` : 'Lesson details'} · Revision {revision.revision}
+                </span>
+                {isCurrent ? (
+                  <span className="text-xs text-green-600 font-medium">Current</span>
+                ) : canRestore && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    disabled={restoreMutation.isPending}
+                    onClick={() => restoreMutation.mutate(revision)}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {describeSource(revision.source, user?.id)} · {formatDate(revision.createdAt)}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <button className="text-gray-500 hover:text-gray-700 p-1" title="History">
+          <History className="h-5 w-5" />
+        </button>
+      </SheetTrigger>
+      <SheetContent side="left" className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>Every change to this lesson is kept, so you can go back to any earlier version.</SheetDescription>
+        </SheetHeader>
+        <Tabs defaultValue="slide" className="mt-4">
+          <TabsList className="w-full">
+            <TabsTrigger value="slide" className="flex-1">This slide</TabsTrigger>
+            <TabsTrigger value="lesson" className="flex-1">Whole lesson</TabsTrigger>
+          </TabsList>
+          <TabsContent value="slide">
+            {renderList(
+              history.filter(revision => String(revision.slideId) === String(currentSlideId)),
+              "This slide hasn't been changed yet."
+            )}
+          </TabsContent>
+          <TabsContent value="lesson">
+            {renderList(history, "This lesson hasn't been changed yet.")}
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { queryClient } from "@/lib/queryClient";
+import { watchLessonJob } from "@/lib/chatSocket";
+import { LessonJob } from "@/types";
+
+interface LessonJobProgressProps {
+  jobId: string;
+  onReady?: (job: LessonJob) => void; // Called once if the job finishes while it is on screen
+}
+
+// Fallback for progress pushed while the socket was down
+const POLL_INTERVAL_MS = 5000;
+
+const isFinished = (job?: LessonJob) => job?.status === 'done' || job?.status === 'failed';
+
+export default function LessonJobProgress({ jobId, onReady }: LessonJobProgressProps) {
+  const queryKey = [`/api/jobs/${jobId}`];
+  const { data: job, isError } = useQuery<LessonJob>({
+    queryKey,
+    refetchInterval: (query) => isFinished(query.state.data) ? false : POLL_INTERVAL_MS,
+  });
+
+  // Live updates from the socket go straight into the query cache
+  useEffect(() => {
+    return watchLessonJob(jobId, (update) => queryClient.setQueryData<LessonJob>(queryKey, update));
+  }, [jobId]);
+
+  // Only a job seen running here counts as newly ready, not one reloaded from chat history
+  const seenUnfinished = useRef(false);
+  const reported = useRef(false);
+  useEffect(() => {
+    if (!job) return;
+    if (!isFinished(job)) {
+      seenUnfinished.current = true;
+    } else if (job.status === 'done' && seenUnfinished.current && !reported.current) {
+      reported.current = true;
+      onReady?.(job);
+    }
+  }, [job]);
+
+  if (isError) {
+    return <div className="mt-2 text-xs text-gray-500">This lesson's progress is no longer available.</div>;
+  }
+  if (!job) {
+    return (
+      <div className="mt-2 flex items-center text-xs text-gray-500">
+        <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+        Checking on your lesson…
+      </div>
+    );
+  }
+
+  const { completedSlides, totalSlides, message } = job.progress;
+  const percent = job.status === 'done' ? 100 : totalSlides > 0 ? Math.round((completedSlides / totalSlides) * 100) : 0;
+
+  return (
+    <div className={`mt-2 border rounded-md p-2 text-xs ${job.status === 'failed' ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-white'}`}>
+      <div className="flex items-center mb-1.5">
+        {job.status === 'done'
+          ? <CheckCircle2 className="h-3.5 w-3.5 mr-1.5 text-green-600 flex-shrink-0" />
+          : job.status === 'failed'
+            ? <AlertCircle className="h-3.5 w-3.5 mr-1.5 text-red-500 flex-shrink-0" />
+            : <Loader2 className="h-3.5 w-3.5 mr-1.5 text-primary flex-shrink-0 animate-spin" />}
+        <span className={`flex-1 font-medium ${job.status === 'failed' ? 'text-red-700' : 'text-gray-700'}`}>
+          {job.status === 'done' && job.lessonTitle ? `"${job.lessonTitle}" is ready` : message}
+        </span>
+        {totalSlides > 0 && job.status !== 'failed' && (
+          <span className="text-gray-500">{completedSlides}/{totalSlides} slides</span>
+        )}
+      </div>
+      {job.status === 'failed'
+        ? <div className="text-red-600">{job.error || 'Something went wrong while creating the lesson.'}</div>
+        : <Progress value={percent} className="h-1.5" />}
+      {job.status === 'done' && job.lessonId != null && (
+        <Link href={`/lesson/${job.lessonId}`} className="inline-block mt-1.5 text-primary hover:underline">
+          Open lesson
+        </Link>
+      )}
+    </div>
+  );
+}
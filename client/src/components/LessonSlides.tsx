@@ -1,7 +1,10 @@
 import { useState, useEffect } from "react";
-import { ChevronLeft, ChevronRight, Maximize, ArrowLeftToLine, Check, List, PlayCircle } from "lucide-react";
+import { ChevronLeft, ChevronRight, Maximize, ArrowLeftToLine, Check, List, PlayCircle, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { AnimatePresence, motion } from "framer-motion";
+import LessonHistoryDrawer from "./LessonHistoryDrawer";
+import { SLIDE_HELPER_SCRIPT } from "@shared/slideHelpers";
 
 export interface Slide {
   id: string;
@@ -9,6 +12,7 @@ export interface Slide {
   content: string;
   type: 'info' | 'challenge' | 'quiz';
   tags: string[];
+  completed?: boolean;
   cssContent?: string;
   jsContent?: string;
   tests?: {
@@ -16,11 +20,13 @@ export interface Slide {
     name: string;
     description: string;
     validation: string;
-    type: 'regex' | 'js';
+    type: 'regex' | 'js' | 'dom' | 'unit';
+    file?: string;
   }[];
 }
 
 interface LessonSlidesProps {
+  lessonId: string;
   lessonTitle: string;
   slides: Slide[];
   currentSlideIndex: number;
@@ -35,9 +41,11 @@ interface LessonSlidesProps {
   lessonStyle?: string;
   lessonCss?: string;
   lessonJs?: string;
+  canEdit?: boolean; // Whether the user owns the lesson and may change it
 }
 
 export default function LessonSlides({ 
+  lessonId,
   lessonTitle, 
   slides, 
   currentSlideIndex, 
@@ -46,7 +54,8 @@ export default function LessonSlides({
   testResults = [],
   lessonStyle = '',
   lessonCss = '',
-  lessonJs = ''
+  lessonJs = '',
+  canEdit = false
 }: LessonSlidesProps) {
   const [isMinimized, setIsMinimized] = useState(false);
   const [timeLeft, setTimeLeft] = useState("15 min left");
@@ -69,20 +78,20 @@ export default function LessonSlides({
     }
   };
 
-  // Create progress dots
+  // Create progress dots reflecting this student's own completion
   const renderProgressDots = () => {
-    return slides.map((_, index) => {
+    return slides.map((slide, index) => {
       const isActive = index === currentSlideIndex;
-      const isPast = index < currentSlideIndex;
       
       return (
         <div 
           key={index}
+          title={slide.completed ? 'Completed' : undefined}
           className={`h-2 w-2 rounded-full ${
             isActive 
-              ? 'bg-primary animate-pulse' 
-              : isPast 
-                ? 'bg-primary' 
+              ? `${slide.completed ? 'bg-green-500' : 'bg-primary'} animate-pulse` 
+              : slide.completed 
+                ? 'bg-green-500' 
                 : 'bg-gray-300'
           }`}
         />
@@ -105,119 +114,7 @@ export default function LessonSlides({
         `<style>${currentSlide.cssContent}</style>` : '';
       
       // Helper JS functions to make interactive elements work
-      const helperJs = `
-      <script>
-        // Initialize global variables
-        window.selectedOption = '';
-        
-        // Define global helper functions for interactive elements
-        window.toggleHint = function() {
-          const hintContent = document.getElementById('hint-content');
-          const hintButton = document.querySelector('.hint-toggle');
-          
-          if (hintContent.style.display === 'block') {
-            hintContent.style.display = 'none';
-            hintButton.innerHTML = '<span class="hint-icon">💡</span> Show Hint';
-          } else {
-            hintContent.style.display = 'block';
-            hintButton.innerHTML = '<span class="hint-icon">💡</span> Hide Hint';
-          }
-        };
-
-        window.showTab = function(evt, tabId) {
-          // Hide all tab content
-          var tabContents = document.getElementsByClassName("tab-content");
-          for (var i = 0; i < tabContents.length; i++) {
-            tabContents[i].classList.remove("active");
-          }
-          
-          // Remove active class from all tab buttons
-          var tabBtns = document.getElementsByClassName("tab-btn");
-          for (var i = 0; i < tabBtns.length; i++) {
-            tabBtns[i].classList.remove("active");
-          }
-          
-          // Show the selected tab and add active class to the button
-          if (document.getElementById(tabId)) {
-            document.getElementById(tabId).classList.add("active");
-            evt.currentTarget.classList.add("active");
-          }
-        };
-
-        window.selectOption = function(option) {
-          // Define selectedOption on window if it doesn't exist
-          if (!('selectedOption' in window)) {
-            window.selectedOption = '';
-          }
-          window.selectedOption = option;
-          const checkAnswerBtn = document.getElementById('check-answer');
-          if (checkAnswerBtn) checkAnswerBtn.disabled = false;
-        };
-
-        window.checkAnswer = function() {
-          if (!window.selectedOption) return;
-          
-          // For demo purposes, we'll consider A as the correct answer
-          const optionA = document.querySelector('.quiz-option[data-option="A"]');
-          const optionB = document.querySelector('.quiz-option[data-option="B"]');
-          const optionC = document.querySelector('.quiz-option[data-option="C"]');
-          const optionD = document.querySelector('.quiz-option[data-option="D"]');
-          
-          // Reset all options first
-          [optionA, optionB, optionC, optionD].forEach(opt => {
-            if (opt) {
-              opt.classList.remove('correct', 'incorrect');
-            }
-          });
-          
-          // Mark selected option using variable to avoid template literal issues
-          let selectedOption = null;
-          if (window.selectedOption) {
-            selectedOption = document.querySelector('.quiz-option[data-option="' + window.selectedOption + '"]');
-          }
-          
-          if (window.selectedOption === 'A') {
-            // Correct answer
-            if (selectedOption) {
-              selectedOption.classList.add('correct');
-            }
-            document.getElementById('feedback-correct').style.display = 'flex';
-            document.getElementById('feedback-incorrect').style.display = 'none';
-          } else {
-            // Incorrect answer
-            if (selectedOption) {
-              selectedOption.classList.add('incorrect');
-            }
-            if (optionA) {
-              optionA.classList.add('correct'); // Show correct answer
-            }
-            document.getElementById('feedback-incorrect').style.display = 'flex';
-            document.getElementById('feedback-correct').style.display = 'none';
-          }
-          
-          document.getElementById('check-answer').style.display = 'none';
-          document.getElementById('next-question').style.display = 'block';
-        };
-
-        window.nextQuestion = function() {
-          alert('This would navigate to the next question in a full implementation');
-        };
-
-        // Initialize quiz elements if they exist
-        if (document.getElementById('check-answer')) {
-          document.getElementById('check-answer').disabled = true;
-        }
-        if (document.getElementById('next-question')) {
-          document.getElementById('next-question').style.display = 'none';
-        }
-        if (document.getElementById('feedback-correct')) {
-          document.getElementById('feedback-correct').style.display = 'none';
-        }
-        if (document.getElementById('feedback-incorrect')) {
-          document.getElementById('feedback-incorrect').style.display = 'none';
-        }
-      </script>
-      `;
+      const helperJs = `<script>${SLIDE_HELPER_SCRIPT}</script>`;
       
       // Create a script tag for centralized lesson JS if available
       const lessonJsScript = lessonJs ? 
@@ -467,7 +364,23 @@ export default function LessonSlides({
           </div>
         </div>
         <div className="flex items-center">
-          <button className="text-gray-500 hover:text-gray-700 p-1">
+          <LessonHistoryDrawer lessonId={lessonId} currentSlideId={currentSlide?.id} canRestore={canEdit} />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="text-gray-500 hover:text-gray-700 p-1 ml-1" title="Export lesson">
+                <Download className="h-5 w-5" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem asChild>
+                <a href={`/api/lessons/${lessonId}/export`} download>Lesson file (.json)</a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href={`/api/lessons/${lessonId}/export/html`} download>Offline website (.html)</a>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <button className="text-gray-500 hover:text-gray-700 p-1 ml-1">
             <Maximize className="h-5 w-5" />
           </button>
           <button 
@@ -615,8 +528,21 @@ export default function LessonSlides({
                                 : 'text-gray-800'
                           }`}>
                             Test {index + 1}: {test.name}
+                            {test.type === 'dom' && (
+                              <span className="ml-2 text-[10px] uppercase tracking-wide bg-blue-50 text-blue-600 border border-blue-100 rounded px-1 py-0.5 align-middle">
+                                page
+                              </span>
+                            )}
+                            {test.file && (
+                              <span className="ml-2 text-[10px] font-mono bg-gray-100 text-gray-600 border border-gray-200 rounded px-1 py-0.5 align-middle">
+                                {test.file}
+                              </span>
+                            )}
                           </p>
                           <p className="text-xs text-gray-500 mt-1">{test.description}</p>
+                          {result && !result.passed && result.message && result.message !== 'Test failed' && (
+                            <p className="text-xs text-red-600 mt-1 whitespace-pre-wrap font-mono">{result.message}</p>
+                          )}
                         </div>
                         <div className="ml-3 flex-shrink-0">
                           <span className={`inline-flex items-center justify-center h-6 w-6 rounded-full ${
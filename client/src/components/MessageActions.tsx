@@ -0,0 +1,37 @@
+import { LessonJob, MessageAction } from "@/types";
+import StyleChoice from "./StyleChoice";
+import LessonJobProgress from "./LessonJobProgress";
+import LessonCreatedCard from "./LessonCreatedCard";
+import SlideEditCard from "./SlideEditCard";
+
+interface MessageActionsProps {
+  chatId: number;
+  messageId: number;
+  actions: MessageAction[];
+  onChooseStyle: (message: string) => void;
+  onLessonReady?: (job: LessonJob) => void;
+}
+
+/**
+ * Renders the structured actions attached to an assistant message
+ */
+export default function MessageActions({ chatId, messageId, actions, onChooseStyle, onLessonReady }: MessageActionsProps) {
+  return (
+    <>
+      {actions.map((action, index) => {
+        switch (action.kind) {
+          case 'choose_style':
+            return <StyleChoice key={index} topic={action.topic} options={action.options} onChoose={onChooseStyle} />;
+          case 'lesson_job':
+            return <LessonJobProgress key={index} jobId={action.jobId} onReady={onLessonReady} />;
+          case 'lesson_created':
+            return <LessonCreatedCard key={index} lessonId={action.lessonId} title={action.title} />;
+          case 'slide_edit':
+            return <SlideEditCard key={action.edit.id} chatId={chatId} messageId={messageId} edit={action.edit} />;
+          default:
+            return null;
+        }
+      })}
+    </>
+  );
+}
@@ -1,9 +1,11 @@
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
-import { Plus, Code } from "lucide-react";
+import { Plus, Code, LogOut } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Navbar() {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
   
   return (
     <nav className="bg-white shadow-sm z-10">
@@ -32,18 +34,31 @@ export default function Navbar() {
               </a>
             </div>
           </div>
-          <div className="flex items-center">
-            <div className="ml-3 relative">
-              <div>
-                <button type="button" className="flex text-sm bg-gray-800 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500" id="user-menu-button">
-                  <span className="sr-only">Open user menu</span>
-                  <div className="h-8 w-8 rounded-full bg-primary flex items-center justify-center text-white">
-                    <span>U</span>
-                  </div>
-                </button>
+          {user && (
+            <div className="flex items-center">
+              <span className="text-sm text-gray-600 mr-2 hidden md:inline">{user.username}</span>
+              <div className="ml-3 relative">
+                <div>
+                  <button type="button" className="flex text-sm bg-gray-800 rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500" id="user-menu-button">
+                    <span className="sr-only">Open user menu</span>
+                    <div className="h-8 w-8 rounded-full bg-primary flex items-center justify-center text-white">
+                      <span>{user.username.charAt(0).toUpperCase()}</span>
+                    </div>
+                  </button>
+                </div>
               </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-2 text-gray-500 hover:text-gray-700"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+              >
+                <LogOut className="h-4 w-4 mr-1" />
+                Log out
+              </Button>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </nav>
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Check, FilePen, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { diffLines } from "@/lib/lineDiff";
+import { Message, SlideEdit } from "@/types";
+
+interface SlideEditCardProps {
+  chatId: number;
+  messageId: number;
+  edit: SlideEdit;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  content: 'Content',
+  type: 'Slide type',
+  tags: 'Tags',
+  initialCode: 'Starting code',
+  filename: 'Filename',
+  cssContent: 'CSS',
+  jsContent: 'JavaScript',
+  files: 'Workspace files',
+  tests: 'Tests',
+};
+
+// Lists and objects are compared as formatted JSON, one property per line
+const asText = (value: unknown) =>
+  value == null ? '' : typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+const LINE_STYLES = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through decoration-red-300',
+};
+const LINE_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+// apiRequest errors read `409: {"message":"..."}`; only the message is worth showing
+const describeError = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+/**
+ * A slide edit proposed by the assistant, shown as a diff the user can accept or reject
+ */
+export default function SlideEditCard({ chatId, messageId, edit }: SlideEditCardProps) {
+  const [status, setStatus] = useState(edit.status);
+
+  const resolveMutation = useMutation({
+    mutationFn: async (decision: 'accept' | 'reject') => {
+      const response = await apiRequest('POST', `/api/chats/${chatId}/messages/${messageId}/edits/${edit.id}/${decision}`);
+      return response.json() as Promise<Message>;
+    },
+    onSuccess: (_message, decision) => {
+      setStatus(decision === 'accept' ? 'accepted' : 'rejected');
+      if (decision === 'accept') {
+        queryClient.invalidateQueries({ queryKey: [`/api/lessons/${edit.lessonId}`] });
+      }
+    },
+  });
+
+  return (
+    <div className="mt-2 border border-gray-200 bg-white rounded-md p-2 text-xs">
+      <div className="flex items-center mb-2">
+        <FilePen className="h-3.5 w-3.5 mr-1.5 text-primary flex-shrink-0" />
+        <span className="flex-1 font-medium text-gray-700">Changes to "{edit.slideTitle}"</span>
+        {status === 'accepted' && <span className="flex items-center text-green-600"><Check className="h-3.5 w-3.5 mr-1" />Applied</span>}
+        {status === 'rejected' && <span className="flex items-center text-gray-500"><X className="h-3.5 w-3.5 mr-1" />Rejected</span>}
+      </div>
+
+      {Object.keys(edit.after).map(field => (
+        <div key={field} className="mb-2">
+          <div className="font-semibold text-gray-600 mb-0.5">{FIELD_LABELS[field] || field}</div>
+          <pre className="max-h-48 overflow-auto rounded border border-gray-100 font-mono text-[11px] leading-4">
+            {diffLines(asText(edit.before[field]), asText(edit.after[field])).map((line, index) => (
+              <div key={index} className={`px-1 whitespace-pre-wrap ${LINE_STYLES[line.kind]}`}>
+                <span className="select-none opacity-60 mr-1">{LINE_MARKERS[line.kind]}</span>{line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      ))}
+
+      {resolveMutation.error && <div className="mb-2 text-red-600">{describeError(resolveMutation.error)}</div>}
+
+      {status === 'pending' && (
+        <div className="flex justify-end gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            disabled={resolveMutation.isPending}
+            onClick={() => resolveMutation.mutate('reject')}
+          >
+            Reject
+          </Button>
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            disabled={resolveMutation.isPending}
+            onClick={() => resolveMutation.mutate('accept')}
+          >
+            {resolveMutation.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Accept
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
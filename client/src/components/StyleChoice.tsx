@@ -0,0 +1,55 @@
+import { LessonStyleOption } from "@/types";
+
+interface StyleChoiceProps {
+  topic: string;
+  options: LessonStyleOption[];
+  onChoose: (message: string) => void; // Receives the reply that picks the style
+}
+
+// Button colours for the styles we know; anything else gets the neutral look
+const STYLE_COLORS: Record<string, { button: string; caption: string }> = {
+  'brown-markdown': { button: 'bg-amber-100 border-amber-200 hover:bg-amber-200 text-amber-800', caption: 'text-amber-600' },
+  'neon-racer': { button: 'bg-indigo-100 border-indigo-200 hover:bg-indigo-200 text-indigo-800', caption: 'text-indigo-600' },
+  'interaction-galore': { button: 'bg-pink-100 border-pink-200 hover:bg-pink-200 text-pink-800', caption: 'text-pink-600' },
+  'project-building': { button: 'bg-blue-100 border-blue-200 hover:bg-blue-200 text-blue-800', caption: 'text-blue-600' },
+};
+const DEFAULT_COLORS = { button: 'bg-gray-100 border-gray-200 hover:bg-gray-200 text-gray-800', caption: 'text-gray-600' };
+
+export default function StyleChoice({ topic, options, onChoose }: StyleChoiceProps) {
+  return (
+    <div className="mt-3">
+      <div className="mb-2 text-center">
+        <span className="text-sm font-semibold text-primary">Choose a style for your lesson:</span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {options.map(option => {
+          const colors = STYLE_COLORS[option.id] || DEFAULT_COLORS;
+          return (
+            <button
+              key={option.id}
+              className={`border py-2 px-3 rounded-md text-xs transition-colors flex flex-col items-center ${colors.button}`}
+              title={option.description}
+              onClick={() => onChoose(`Use the ${option.name} ${option.emoji} style for the lesson about ${topic}`)}
+            >
+              <span className="text-lg mb-1">{option.emoji}</span>
+              <span className="font-medium">{option.name}</span>
+              <span className={`text-xs mt-1 text-center ${colors.caption}`}>{option.description}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* "You decide!" option spans the full width */}
+      <div className="mt-2">
+        <button
+          className="w-full bg-green-100 border border-green-200 hover:bg-green-200 text-green-800 py-2 px-3 rounded-md text-xs transition-colors flex flex-col items-center"
+          onClick={() => onChoose(`You decide the best style for the lesson about ${topic}`)}
+        >
+          <span className="text-lg mb-1">✨</span>
+          <span className="font-medium">You decide!</span>
+          <span className="text-xs text-green-600 mt-1">Pick the best style for this topic</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Wrench, AlertCircle, Loader2 } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ToolCall } from "@/types";
+
+interface ToolCallCardProps {
+  call: ToolCall;
+  agentName: string;
+}
+
+// Longest argument or result shown before it is cut off
+const MAX_DETAIL_LENGTH = 2000;
+
+// What each tool did, is doing while the reply streams, and what to call it when it failed
+const TOOL_DESCRIPTIONS: Record<string, { done: (slide: string) => string; running: string; failed: string }> = {
+  addSlide: { done: (slide) => `added slide${slide}`, running: "adding a slide", failed: "add a slide" },
+  updateSlide: { done: () => "suggested changes to a slide", running: "working out changes to a slide", failed: "change the slide" },
+  updateLesson: { done: () => "updated the lesson details", running: "updating the lesson details", failed: "update the lesson details" },
+  getLesson: { done: () => "read the lesson", running: "reading the lesson", failed: "read the lesson" },
+  getLessons: { done: () => "looked through the lessons", running: "looking through the lessons", failed: "look through the lessons" },
+  getSlides: { done: () => "read the slides", running: "reading the slides", failed: "read the slides" },
+  getSlide: { done: (slide) => `read slide${slide}`, running: "reading a slide", failed: "read a slide" },
+  getCurrentSlideContext: { done: () => "checked which slide you're on", running: "checking which slide you're on", failed: "check which slide you're on" },
+};
+
+/**
+ * One-line summary of a tool call, e.g. "Mumu updated slide 3"
+ */
+export const describeToolCall = (call: ToolCall, agentName: string): string => {
+  const description = TOOL_DESCRIPTIONS[call.name];
+  if (call.status === 'running') {
+    return `${agentName} is ${description ? description.running : `running ${call.name}`}…`;
+  }
+  if (call.status === 'error') {
+    return `${agentName} couldn't ${description ? description.failed : `run ${call.name}`}`;
+  }
+
+  // Slide tools return the slide, whose order gives its position in the lesson
+  const order = call.result?.order;
+  const slide = typeof order === 'number' ? ` ${order + 1}` : '';
+  return `${agentName} ${description ? description.done(slide) : `used ${call.name}`}`;
+};
+
+const formatDetail = (value: any): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? String(value);
+  return text.length > MAX_DETAIL_LENGTH ? `${text.slice(0, MAX_DETAIL_LENGTH)}\n…` : text;
+};
+
+export default function ToolCallCard({ call, agentName }: ToolCallCardProps) {
+  const [open, setOpen] = useState(false);
+  const failed = call.status === 'error';
+  const running = call.status === 'running';
+  const title = call.result?.title || call.args?.title;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className={`border rounded-md text-xs ${failed ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-white'}`}>
+        <CollapsibleTrigger className="w-full flex items-center px-2 py-1.5 text-left">
+          {running
+            ? <Loader2 className="h-3.5 w-3.5 mr-1.5 text-primary flex-shrink-0 animate-spin" />
+            : failed
+              ? <AlertCircle className="h-3.5 w-3.5 mr-1.5 text-red-500 flex-shrink-0" />
+              : <Wrench className="h-3.5 w-3.5 mr-1.5 text-primary flex-shrink-0" />}
+          <span className={`flex-1 font-medium ${failed ? 'text-red-700' : 'text-gray-700'}`}>
+            {describeToolCall(call, agentName)}
+            {title && !failed && <span className="font-normal text-gray-500"> · {title}</span>}
+          </span>
+          {open
+            ? <ChevronDown className="h-3.5 w-3.5 text-gray-400" />
+            : <ChevronRight className="h-3.5 w-3.5 text-gray-400" />}
+        </CollapsibleTrigger>
+        <CollapsibleContent className="px-2 pb-2 space-y-2">
+          <div>
+            <div className="text-gray-500 mb-0.5">Arguments</div>
+            <pre className="bg-gray-50 p-1.5 rounded font-mono whitespace-pre-wrap break-all max-h-40 overflow-y-auto">
+              {formatDetail(call.args)}
+            </pre>
+          </div>
+          {!running && (
+            <div>
+              <div className="text-gray-500 mb-0.5">{failed ? 'Error' : 'Result'}</div>
+              <pre className="bg-gray-50 p-1.5 rounded font-mono whitespace-pre-wrap break-all max-h-40 overflow-y-auto">
+                {formatDetail(call.result)}
+              </pre>
+            </div>
+          )}
+        </CollapsibleContent>
+      </div>
+    </Collapsible>
+  );
+}
@@ -1,10 +1,13 @@
 import { useState, useEffect } from 'react';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import { Chat, Message } from '@/types';
+import { sendChatMessage, ChatSocketUnavailableError } from '@/lib/chatSocket';
+import { Chat, ChatContext, Message, ToolCall } from '@/types';
 
-export function useAI(lessonId?: string) {
+// `context` is sent with every message, so replies know what the user is looking at
+export function useAI(lessonId?: string, context: ChatContext = {}) {
   const [chat, setChat] = useState<Chat | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -74,13 +77,42 @@ export function useAI(lessonId?: string) {
     setIsLoading(true);
     setError(null);
 
+    // The reply is shown as it streams in, until the stored message replaces it
+    const updateStreamingMessage = (update: (message: Message) => Message) => {
+      setStreamingMessage(prev => update(prev || {
+        id: -1, // Temporary ID, will be replaced by the real one from the server
+        role: 'assistant',
+        content: '',
+        toolCalls: [],
+        timestamp: Date.now()
+      }));
+    };
+
     try {
-      // Send the contextual content to the backend
-      const response = await apiRequest('POST', `/api/chats/${chat.id}/messages`, {
-        content: contextualContent
-      });
-      
-      const data = await response.json();
+      let data: Message;
+      try {
+        // Stream the reply over the socket
+        data = await sendChatMessage(chat.id, contextualContent, context, {
+          onDelta: (delta) => updateStreamingMessage(message => ({ ...message, content: message.content + delta })),
+          onToolStarted: (call) => updateStreamingMessage(message => ({
+            ...message,
+            toolCalls: [...(message.toolCalls || []), { ...call, result: null, status: 'running' } as ToolCall]
+          })),
+          onToolFinished: (call) => updateStreamingMessage(message => ({
+            ...message,
+            toolCalls: (message.toolCalls || []).map(existing => existing.id === call.id ? call : existing)
+          }))
+        });
+      } catch (err) {
+        if (!(err instanceof ChatSocketUnavailableError)) throw err;
+
+        // Fall back to HTTP when the socket can't be reached
+        const response = await apiRequest('POST', `/api/chats/${chat.id}/messages`, {
+          content: contextualContent,
+          context
+        });
+        data = await response.json();
+      }
       
       // Add AI response to messages
       setMessages(prev => [...prev, data]);
@@ -94,9 +126,17 @@ export function useAI(lessonId?: string) {
       console.error('Error sending message:', err);
       setError('Failed to send message');
     } finally {
+      setStreamingMessage(null);
       setIsLoading(false);
     }
   };
 
-  return { chat, messages, sendMessage, isLoading, error };
+  return {
+    chat,
+    messages: streamingMessage ? [...messages, streamingMessage] : messages,
+    sendMessage,
+    isLoading,
+    isStreaming: streamingMessage !== null,
+    error
+  };
 }
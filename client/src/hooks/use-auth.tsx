@@ -0,0 +1,93 @@
+import { createContext, ReactNode, useContext } from 'react';
+import { useQuery, useMutation, UseMutationResult } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { User } from '@/types';
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+interface AuthContextType {
+  user: User | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<User, Error, Credentials>;
+  registerMutation: UseMutationResult<User, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  // A 401 just means nobody is logged in
+  const { data: user, isLoading } = useQuery<User | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const onAuthenticated = (user: User) => {
+    // Drop anything cached for a previous user before storing the new one
+    queryClient.clear();
+    queryClient.setQueryData(['/api/auth/me'], user);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest('POST', '/api/auth/login', credentials);
+      return (await res.json()) as User;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({ title: 'Login failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest('POST', '/api/auth/register', credentials);
+      return (await res.json()) as User;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({ title: 'Registration failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(['/api/auth/me'], null);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Logout failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
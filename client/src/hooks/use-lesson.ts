@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import { Lesson, Slide } from '@/types';
+import { Lesson, Slide, TestResult } from '@/types';
 
 export function useLesson(lessonId?: string) {
   const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
@@ -56,15 +56,21 @@ export function useLesson(lessonId?: string) {
     },
   });
   
-  // Mark slide as completed
-  const markSlideCompleted = async () => {
-    if (!currentSlide || !lessonId) return;
-    
-    await updateSlideMutation.mutateAsync({
-      slideId: currentSlide.id,
-      content: { completed: true }
-    });
-  };
+  // Save the current user's latest attempt on a slide. Completion is decided by
+  // the server when it grades a run
+  const saveProgressMutation = useMutation({
+    mutationFn: async ({ slideId, progress }: {
+      slideId: string;
+      progress: { code?: string; testResults?: TestResult[] };
+    }) => {
+      if (!lessonId) throw new Error('No lesson ID provided');
+      const response = await apiRequest('PUT', `/api/lessons/${lessonId}/slides/${slideId}/progress`, progress);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/lessons/${lessonId}`] });
+    },
+  });
   
   return {
     lesson,
@@ -76,7 +82,7 @@ export function useLesson(lessonId?: string) {
     nextSlide,
     prevSlide,
     setCurrentSlideIndex,
-    markSlideCompleted,
+    saveProgress: saveProgressMutation.mutate,
     updateSlide: updateSlideMutation.mutate
   };
 }
@@ -0,0 +1,158 @@
+import type { ChatContext, LessonJob, Message, ToolCall } from '@/types';
+
+export interface ChatStreamHandlers {
+  onDelta?: (delta: string) => void;
+  onToolStarted?: (call: Pick<ToolCall, 'id' | 'name' | 'args' | 'step'>) => void;
+  onToolFinished?: (call: ToolCall) => void;
+}
+
+/**
+ * The socket couldn't be reached, so the message was never sent and it is safe
+ * to send it over HTTP instead
+ */
+export class ChatSocketUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatSocketUnavailableError';
+  }
+}
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+interface PendingReply {
+  handlers: ChatStreamHandlers;
+  resolve: (message: Message) => void;
+  reject: (error: Error) => void;
+}
+
+// One socket is shared by every chat; replies are matched to requests by id
+let socket: WebSocket | null = null;
+let connecting: Promise<WebSocket> | null = null;
+const pending = new Map<string, PendingReply>();
+
+// Job progress is pushed to every socket of the job's owner, not tied to a request
+const jobWatchers = new Map<string, Set<(job: LessonJob) => void>>();
+
+const handleEvent = (event: MessageEvent) => {
+  let data: any;
+  try {
+    data = JSON.parse(event.data);
+  } catch {
+    return;
+  }
+
+  if (data.type === 'job_progress') {
+    jobWatchers.get(data.job.id)?.forEach(onUpdate => onUpdate(data.job));
+    return;
+  }
+
+  const reply = data.requestId ? pending.get(data.requestId) : undefined;
+  if (!reply) return;
+
+  switch (data.type) {
+    case 'chat_delta':
+      reply.handlers.onDelta?.(data.delta);
+      break;
+    case 'tool_started':
+      reply.handlers.onToolStarted?.(data.toolCall);
+      break;
+    case 'tool_finished':
+      reply.handlers.onToolFinished?.(data.toolCall);
+      break;
+    case 'chat_done':
+      pending.delete(data.requestId);
+      reply.resolve(data.message);
+      break;
+    case 'error':
+      pending.delete(data.requestId);
+      reply.reject(new Error(data.error || 'Failed to send message'));
+      break;
+  }
+};
+
+const connect = (): Promise<WebSocket> => {
+  if (socket && socket.readyState === WebSocket.OPEN) return Promise.resolve(socket);
+  if (connecting) return connecting;
+
+  connecting = new Promise<WebSocket>((resolve, reject) => {
+    if (typeof WebSocket === 'undefined') {
+      reject(new ChatSocketUnavailableError('WebSockets are not supported'));
+      return;
+    }
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    const timer = setTimeout(() => {
+      ws.close();
+      reject(new ChatSocketUnavailableError('Timed out connecting to the chat server'));
+    }, CONNECT_TIMEOUT_MS);
+
+    ws.onopen = () => {
+      clearTimeout(timer);
+      socket = ws;
+      resolve(ws);
+    };
+    ws.onerror = () => {
+      clearTimeout(timer);
+      reject(new ChatSocketUnavailableError('Could not connect to the chat server'));
+    };
+    ws.onmessage = handleEvent;
+    ws.onclose = () => {
+      clearTimeout(timer);
+      if (socket === ws) socket = null;
+
+      // Replies still streaming are lost with the connection
+      pending.forEach(reply => reply.reject(new Error('Chat connection closed')));
+      pending.clear();
+    };
+  }).finally(() => {
+    connecting = null;
+  });
+
+  return connecting;
+};
+
+/**
+ * Send a chat message over the socket with what the user has on screen,
+ * streaming the reply to `handlers`. Resolves with the stored assistant
+ * message once the reply is complete.
+ */
+export const sendChatMessage = async (
+  chatId: number,
+  content: string,
+  context: ChatContext = {},
+  handlers: ChatStreamHandlers = {}
+): Promise<Message> => {
+  const ws = await connect();
+  const requestId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+  return new Promise<Message>((resolve, reject) => {
+    pending.set(requestId, { handlers, resolve, reject });
+    try {
+      ws.send(JSON.stringify({ type: 'chat_message', chatId, content, context, requestId }));
+    } catch (error) {
+      pending.delete(requestId);
+      reject(new ChatSocketUnavailableError(error instanceof Error ? error.message : String(error)));
+    }
+  });
+};
+
+/**
+ * Follow a lesson generation job, calling `onUpdate` whenever the server reports
+ * progress. Returns a function that stops watching. Updates sent while the
+ * socket is disconnected are lost, so callers should also poll the job.
+ */
+export const watchLessonJob = (jobId: string, onUpdate: (job: LessonJob) => void): (() => void) => {
+  const watchers = jobWatchers.get(jobId) ?? new Set();
+  watchers.add(onUpdate);
+  jobWatchers.set(jobId, watchers);
+
+  connect().catch(() => {
+    // Polling keeps the job up to date without the socket
+  });
+
+  return () => {
+    watchers.delete(onUpdate);
+    if (watchers.size === 0) jobWatchers.delete(jobId);
+  };
+};
@@ -1,78 +1,213 @@
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'table';
+
+export interface ConsoleMessage {
+  level: ConsoleLevel;
+  message: string;
+}
+
+export interface RunResult {
+  output: string[];
+  error: string | null;
+  timedOut: boolean;
+  stopped: boolean;
+}
+
+export interface RunHandle {
+  result: Promise<RunResult>;
+  stop: () => void;
+}
+
+export const DEFAULT_RUN_TIMEOUT_MS = 5000;
+
 /**
- * Run JavaScript code safely and capture console output
+ * Format a console message as a line of output, prefixing errors and warnings
  */
-export const runCode = (
-  code: string, 
-  onConsoleLog: (log: string) => void, 
-  onConsoleError: (error: string) => void
-): Promise<{ output: string[], error: string | null }> => {
+export const formatConsoleMessage = ({ level, message }: ConsoleMessage): string => {
+  if (level === 'error') return `Error: ${message}`;
+  if (level === 'warn') return `Warning: ${message}`;
+  return message;
+};
+
+/**
+ * Remove script tags and a leading language identifier from code
+ */
+export const cleanCode = (code: string): string => {
+  let cleanedCode = code;
+
+  // First remove script tags
+  if (code.includes('<script>') || code.includes('</script>')) {
+    cleanedCode = code
+      .replace(/<script>/g, '')
+      .replace(/<\/script>/g, '')
+      .replace(/<script type="text\/javascript">/g, '')
+      .replace(/<script language="javascript">/g, '');
+  }
+
+  // Then remove language identifiers that might be at the beginning of the code
+  cleanedCode = cleanedCode.trim();
+  if (/^(javascript|js)(\s|$)/.test(cleanedCode)) {
+    // Remove the word 'javascript' or 'js' if it's the first word in the code
+    cleanedCode = cleanedCode.replace(/^(javascript|js)(\s|$)/, '').trim();
+  }
+
+  return cleanedCode;
+};
+
+export type RuntimeLanguage = 'javascript' | 'python';
+
+export interface RunOptions {
+  language?: RuntimeLanguage;
+  timeoutMs?: number; // Counted from when the code starts, not while a runtime loads
+  onStatus?: (status: string) => void;
+}
+
+interface Runtime {
+  createWorker: () => Worker;
+  prepare: (code: string) => string;
+  persistent: boolean; // Keep the worker between runs when the runtime is slow to load
+}
+
+const runtimes: Record<RuntimeLanguage, Runtime> = {
+  javascript: {
+    createWorker: () => new Worker(new URL('./codeRunner.worker.ts', import.meta.url), { type: 'module' }),
+    prepare: cleanCode,
+    persistent: false,
+  },
+  python: {
+    createWorker: () => new Worker(new URL('./pythonRunner.worker.ts', import.meta.url), { type: 'module' }),
+    prepare: (code) => code,
+    persistent: true,
+  },
+};
+
+const idleWorkers: Partial<Record<RuntimeLanguage, Worker>> = {};
+
+/**
+ * Run `describe`/`it` suites against JavaScript code in a fresh worker.
+ * Resolves with one pass/fail result and report per suite.
+ */
+export const runUnitTests = (
+  code: string,
+  suites: { id: string; suite: string }[],
+  timeoutMs: number = DEFAULT_RUN_TIMEOUT_MS
+): Promise<{ id: string; passed: boolean; message: string }[]> => {
+  const worker = runtimes.javascript.createWorker();
+  const failAll = (message: string) => suites.map(({ id }) => ({ id, passed: false, message }));
+
   return new Promise((resolve) => {
-    const consoleOutputs: string[] = [];
-    const originalConsoleLog = console.log;
-    const originalConsoleError = console.error;
-    
-    // Override console.log
-    console.log = (...args) => {
-      const message = args.map(arg => 
-        typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-      ).join(' ');
-      
-      consoleOutputs.push(message);
-      onConsoleLog(message);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const finish = (results: { id: string; passed: boolean; message: string }[]) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(results);
     };
-    
-    // Override console.error
-    console.error = (...args) => {
-      const message = args.map(arg => 
-        typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-      ).join(' ');
-      
-      consoleOutputs.push(`Error: ${message}`);
-      onConsoleError(message);
+
+    worker.onmessage = (event: MessageEvent) => {
+      const data = event.data;
+      if (data.type === 'started') {
+        timer = setTimeout(() => finish(failAll(`Tests timed out after ${timeoutMs}ms`)), timeoutMs);
+      } else if (data.type === 'unitResults') {
+        finish(data.results);
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      finish(failAll(event.message || 'Failed to run tests'));
     };
 
-    // Remove script tags and language identifiers from code if they exist
-    let cleanedCode = code;
-    
-    // First remove script tags
-    if (code.includes('<script>') || code.includes('</script>')) {
-      cleanedCode = code
-        .replace(/<script>/g, '')
-        .replace(/<\/script>/g, '')
-        .replace(/<script type="text\/javascript">/g, '')
-        .replace(/<script language="javascript">/g, '');
-      
-      // Log what we're doing so the user understands
-      console.log("Removing script tags before execution...");
-    }
-    
-    // Then remove language identifiers that might be at the beginning of the code
-    cleanedCode = cleanedCode.trim();
-    if (/^(javascript|js)(\s|$)/.test(cleanedCode)) {
-      // Remove the word 'javascript' or 'js' if it's the first word in the code
-      cleanedCode = cleanedCode.replace(/^(javascript|js)(\s|$)/, '').trim();
-      console.log("Removing language identifier before execution...");
-    }
-    
-    // Execute the code in a try-catch block
-    let error: string | null = null;
-    try {
-      // Using Function constructor to evaluate the code
-      Function(cleanedCode)();
-    } catch (e) {
-      const errorMessage = e instanceof Error ? e.message : String(e);
-      error = errorMessage;
-      onConsoleError(errorMessage);
-      consoleOutputs.push(`Error: ${errorMessage}`);
-    } finally {
-      // Restore the original console functions
-      console.log = originalConsoleLog;
-      console.error = originalConsoleError;
-      
-      resolve({
-        output: consoleOutputs,
-        error
-      });
-    }
+    worker.postMessage({ code: cleanCode(code), unitTests: suites });
   });
 };
+
+/**
+ * Pick the runtime for a slide: the filename extension wins, then the lesson language
+ */
+export const detectRuntime = (filename?: string | null, language?: string | null): RuntimeLanguage => {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension === 'py') return 'python';
+  if (extension === 'js' || extension === 'mjs') return 'javascript';
+  return language?.toLowerCase() === 'python' ? 'python' : 'javascript';
+};
+
+/**
+ * Run code in a Web Worker for its language, streaming console output as it arrives.
+ * Stopped or timed-out workers are terminated; a fresh one is started next time.
+ */
+export const runCode = (
+  code: string,
+  onConsoleMessage: (message: ConsoleMessage) => void,
+  { language = 'javascript', timeoutMs = DEFAULT_RUN_TIMEOUT_MS, onStatus }: RunOptions = {}
+): RunHandle => {
+  const runtime = runtimes[language];
+  const worker = idleWorkers[language] || runtime.createWorker();
+  delete idleWorkers[language];
+
+  const consoleOutputs: string[] = [];
+  let settled = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let finish: (result: Omit<RunResult, 'output'>, reusable?: boolean) => void = () => {};
+
+  const result = new Promise<RunResult>((resolve) => {
+    finish = (outcome, reusable = false) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.onmessage = null;
+      worker.onerror = null;
+
+      // Only a worker that finished on its own is safe to reuse
+      if (runtime.persistent && reusable) {
+        idleWorkers[language] = worker;
+      } else {
+        worker.terminate();
+      }
+      resolve({ output: consoleOutputs, ...outcome });
+    };
+
+    worker.onmessage = (event: MessageEvent) => {
+      const data = event.data;
+      if (data.type === 'status') {
+        onStatus?.(data.message);
+      } else if (data.type === 'started') {
+        timer = setTimeout(() => {
+          const message = `Execution timed out after ${timeoutMs}ms`;
+          consoleOutputs.push(`Error: ${message}`);
+          onConsoleMessage({ level: 'error', message });
+          finish({ error: message, timedOut: true, stopped: false });
+        }, timeoutMs);
+      } else if (data.type === 'console') {
+        const message: ConsoleMessage = { level: data.level, message: data.message };
+        consoleOutputs.push(formatConsoleMessage(message));
+        onConsoleMessage(message);
+      } else if (data.type === 'done') {
+        if (data.error) {
+          consoleOutputs.push(`Error: ${data.error}`);
+          onConsoleMessage({ level: 'error', message: data.error });
+        }
+        finish({ error: data.error, timedOut: false, stopped: false }, true);
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      const message = event.message || 'Failed to run code';
+      consoleOutputs.push(`Error: ${message}`);
+      onConsoleMessage({ level: 'error', message });
+      finish({ error: message, timedOut: false, stopped: false });
+    };
+  });
+
+  worker.postMessage({ code: runtime.prepare(code) });
+
+  return {
+    result,
+    stop: () => {
+      if (settled) return;
+      const message = 'Execution stopped';
+      consoleOutputs.push(`Error: ${message}`);
+      onConsoleMessage({ level: 'error', message });
+      finish({ error: message, timedOut: false, stopped: true });
+    },
+  };
+};
@@ -0,0 +1,103 @@
+/**
+ * Web Worker that runs student code off the UI thread.
+ * Console calls are streamed back to the page as they happen.
+ */
+import { lockDownWorkerScope } from './workerScope';
+import { UNIT_TEST_RUNTIME } from '@shared/unitTests';
+
+type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'table';
+
+const post = (message: unknown) => (self as unknown as Worker).postMessage(message);
+
+const formatValue = (arg: unknown) => {
+  if (typeof arg === 'object' && arg !== null) {
+    try {
+      return JSON.stringify(arg, null, 2);
+    } catch {
+      return String(arg);
+    }
+  }
+  return String(arg);
+};
+
+// Render console.table data as a plain-text grid
+const formatTable = (data: unknown) => {
+  if (typeof data !== 'object' || data === null) return formatValue(data);
+
+  const rows = Object.entries(data as Record<string, unknown>);
+  const columns: string[] = [];
+  rows.forEach(([, row]) => {
+    if (typeof row === 'object' && row !== null) {
+      Object.keys(row).forEach(key => {
+        if (!columns.includes(key)) columns.push(key);
+      });
+    } else if (!columns.includes('Values')) {
+      columns.push('Values');
+    }
+  });
+
+  const header = ['(index)', ...columns];
+  const body = rows.map(([index, row]) => [
+    index,
+    ...columns.map(column => {
+      if (typeof row === 'object' && row !== null) {
+        return column in row ? formatValue((row as Record<string, unknown>)[column]) : '';
+      }
+      return column === 'Values' ? formatValue(row) : '';
+    }),
+  ]);
+
+  const widths = header.map((cell, i) => Math.max(cell.length, ...body.map(row => row[i].length)));
+  const line = (cells: string[]) => '│ ' + cells.map((cell, i) => cell.padEnd(widths[i])).join(' │ ') + ' │';
+  const rule = (left: string, mid: string, right: string) =>
+    left + widths.map(width => '─'.repeat(width + 2)).join(mid) + right;
+
+  return [
+    rule('┌', '┬', '┐'),
+    line(header),
+    rule('├', '┼', '┤'),
+    ...body.map(line),
+    rule('└', '┴', '┘'),
+  ].join('\n');
+};
+
+const record = (level: ConsoleLevel) => (...args: unknown[]) => {
+  const message = level === 'table' ? formatTable(args[0]) : args.map(formatValue).join(' ');
+  post({ type: 'console', level, message });
+};
+
+console.log = record('log');
+console.info = record('info');
+console.warn = record('warn');
+console.error = record('error');
+console.table = record('table');
+
+lockDownWorkerScope();
+
+const runUnitSuite: (code: string, suite: string) => { passed: boolean; message: string } =
+  Function(`return ${UNIT_TEST_RUNTIME}`)();
+
+self.onmessage = (event: MessageEvent<{ code: string; unitTests?: { id: string; suite: string }[] }>) => {
+  // Unit test runs report one result per suite instead of running the code on its own
+  if (event.data.unitTests) {
+    post({ type: 'started' });
+    const results = event.data.unitTests.map(test => {
+      try {
+        return { id: test.id, ...runUnitSuite(event.data.code, test.suite) };
+      } catch (e) {
+        return { id: test.id, passed: false, message: e instanceof Error ? e.message : String(e) };
+      }
+    });
+    post({ type: 'unitResults', results });
+    return;
+  }
+
+  let error: string | null = null;
+  post({ type: 'started' });
+  try {
+    Function(event.data.code)();
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+  post({ type: 'done', error });
+};
@@ -1,9 +1,18 @@
+import type { WorkspaceFile } from './workspace';
+import { openPreview, type PreviewPage } from './preview';
+import { runUnitTests } from './codeRunner';
+import { apiRequest } from './queryClient';
+
+// Test definitions are parsed the same way when lessons are imported on the server
+export { parseTests } from '@shared/testDefinitions';
+
 export interface TestCase {
   id: string;
   name: string;
   description: string;
-  validation: string; // Regex or JavaScript code to eval
-  type: 'regex' | 'js';
+  validation: string; // Regex, JavaScript code to eval, JavaScript run in the rendered page, or a describe/it suite
+  type: 'regex' | 'js' | 'dom' | 'unit';
+  file?: string; // Workspace file the test checks instead of the whole code
 }
 
 export interface TestResult {
@@ -14,12 +23,17 @@ export interface TestResult {
 }
 
 /**
- * Run tests against submitted code
+ * Run tests against submitted code. For multi-file workspaces, tests with a
+ * `file` check that file and `js` validations also receive every file by name.
+ * `dom` tests run inside the rendered page, reusing `page` when one is given.
+ * `unit` tests run a describe/it suite against the code in a worker.
  */
 export const runTests = async (
   code: string,
   tests: TestCase[],
-  consoleOutput: string[] = []
+  consoleOutput: string[] = [],
+  files: WorkspaceFile[] = [],
+  page?: PreviewPage
 ): Promise<TestResult[]> => {
   // Clean code of script tags and language identifiers for testing
   let cleanedCode = code;
@@ -40,19 +54,74 @@ export const runTests = async (
     cleanedCode = cleanedCode.replace(/^(javascript|js)(\s|$)/, '').trim();
   }
 
+  const fileMap = Object.fromEntries(files.map(file => [file.name, file.content]));
+
+  // Render the code (or workspace) once for all dom tests
+  const domTests = tests.filter(test => test.type === 'dom');
+  let domResults: TestResult[] = [];
+  if (domTests.length > 0) {
+    const domPage = page || openPreview(files.length > 0 ? files : [{
+      name: /^\s*</.test(cleanedCode) ? 'index.html' : 'script.js',
+      content: cleanedCode
+    }]);
+    try {
+      domResults = await domPage.runDomTests(domTests, { code: cleanedCode, consoleOutput, files: fileMap });
+    } finally {
+      if (!page) domPage.close();
+    }
+  }
+
+  // Unit suites run against the file they target, or every script in a workspace
+  const unitTests = tests.filter(test => test.type === 'unit');
+  let unitResults: { id: string; passed: boolean; message: string }[] = [];
+  if (unitTests.length > 0) {
+    const scripts = files.filter(file => file.name.endsWith('.js')).map(file => file.content).join('\n;\n');
+    const groups = new Map<string, TestCase[]>();
+    unitTests.forEach(test => {
+      const target = test.file ? fileMap[test.file] ?? '' : files.length > 0 ? scripts : cleanedCode;
+      groups.set(target, [...(groups.get(target) || []), test]);
+    });
+    for (const [target, group] of Array.from(groups)) {
+      unitResults = unitResults.concat(
+        await runUnitTests(target, group.map(test => ({ id: test.id, suite: test.validation })))
+      );
+    }
+  }
+
   return tests.map((test) => {
+    if (test.type === 'unit') {
+      const result = unitResults.find(r => r.id === test.id);
+      return {
+        id: test.id,
+        name: test.name,
+        passed: result?.passed ?? false,
+        message: result?.message || 'Test failed'
+      };
+    }
+    
+    if (test.type === 'dom') {
+      return domResults.find(result => result.id === test.id) || {
+        id: test.id,
+        name: test.name,
+        passed: false,
+        message: 'Test failed'
+      };
+    }
+    
+
     try {
       let passed = false;
+      const target = test.file ? fileMap[test.file] ?? '' : cleanedCode;
       
       if (test.type === 'regex') {
         // Run regex validation against the cleaned code
         const regex = new RegExp(test.validation);
-        passed = regex.test(cleanedCode);
+        passed = regex.test(target);
       } else if (test.type === 'js') {
         // Create a function that evaluates the test validation code
         // This allows complex validation like checking console output
-        const testFn = new Function('code', 'consoleOutput', test.validation);
-        passed = testFn(cleanedCode, consoleOutput);
+        const testFn = new Function('code', 'consoleOutput', 'files', test.validation);
+        passed = testFn(target, consoleOutput, fileMap);
       }
 
       return {
@@ -73,34 +142,22 @@ export const runTests = async (
 };
 
 /**
- * Parse test definitions from a string
- * Format: Test name | Description | validation code or regex | type (regex or js)
+ * Grade code against a slide's stored tests in the server sandbox, which also
+ * records the attempt and whether the slide is completed. `dom` tests need a
+ * rendered page, so their results come from the local run.
  */
-export const parseTests = (testDefinitions: string): TestCase[] => {
-  if (!testDefinitions) return [];
-  
-  return testDefinitions.split('\n')
-    .filter(line => line.trim())
-    .map((line, index) => {
-      const parts = line.split('|').map(part => part.trim());
-      if (parts.length < 3) {
-        return {
-          id: `test-${index + 1}`,
-          name: parts[0] || `Test ${index + 1}`,
-          description: parts[1] || '',
-          validation: parts[2] || '',
-          type: parts[3] === 'js' ? 'js' : 'regex'
-        };
-      }
-      
-      return {
-        id: `test-${index + 1}`,
-        name: parts[0],
-        description: parts[1],
-        validation: parts[2],
-        type: (parts[3] === 'js' ? 'js' : 'regex')
-      };
-    });
+export const gradeOnServer = async (
+  code: string,
+  slideId: string,
+  tests: TestCase[],
+  localResults: TestResult[]
+): Promise<TestResult[]> => {
+  const response = await apiRequest('POST', '/api/run', { code, slideId });
+  const { results } = await response.json() as { results: TestResult[] };
+  return results.map(result => {
+    const isDom = tests.find(test => test.id === result.id)?.type === 'dom';
+    return isDom ? localResults.find(local => local.id === result.id) || result : result;
+  });
 };
 
 /**
@@ -0,0 +1,235 @@
+import type { TestCase, TestResult } from './codeTests';
+import type { ConsoleMessage } from './codeRunner';
+import type { WorkspaceFile } from './workspace';
+
+export interface PreviewPage {
+  loaded: Promise<void>;
+  runDomTests: (tests: TestCase[], context: DomTestContext) => Promise<TestResult[]>;
+  close: () => void;
+}
+
+export interface DomTestContext {
+  code: string;
+  consoleOutput: string[];
+  files: Record<string, string>;
+}
+
+const DEFAULT_PREVIEW_TIMEOUT_MS = 5000;
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Inline content must not close the tag it is placed in
+const escapeScript = (content: string) => content.replace(/<\/script/gi, '<\\/script');
+const escapeStyle = (content: string) => content.replace(/<\/style/gi, '<\\/style');
+
+/**
+ * Assemble workspace files into a single HTML document. Stylesheets and scripts the
+ * HTML references by name are inlined in place; any others are appended.
+ */
+export const buildPreviewDocument = (files: WorkspaceFile[], headScript = ''): string => {
+  const htmlFile = files.find(file => file.name === 'index.html') || files.find(file => extensionOf(file.name) === 'html');
+  let html = htmlFile?.content || '<!DOCTYPE html>\n<html>\n<head>\n<meta charset="UTF-8" />\n</head>\n<body>\n</body>\n</html>';
+
+  const unreferenced: WorkspaceFile[] = [];
+  files.forEach(file => {
+    const name = escapeRegExp(file.name);
+    const extension = extensionOf(file.name);
+
+    if (extension === 'css') {
+      const link = new RegExp(`<link[^>]*href=["'](?:\\./)?${name}["'][^>]*>`, 'gi');
+      if (link.test(html)) {
+        html = html.replace(link, () => `<style>\n${escapeStyle(file.content)}\n</style>`);
+      } else {
+        unreferenced.push(file);
+      }
+    } else if (extension === 'js') {
+      const script = new RegExp(`<script([^>]*)src=["'](?:\\./)?${name}["']([^>]*)>\\s*</script>`, 'gi');
+      if (script.test(html)) {
+        html = html.replace(script, (_match, before: string, after: string) =>
+          `<script${before}${after}>\n${escapeScript(file.content)}\n</script>`);
+      } else {
+        unreferenced.push(file);
+      }
+    }
+  });
+
+  const styles = unreferenced
+    .filter(file => extensionOf(file.name) === 'css')
+    .map(file => `<style>\n${escapeStyle(file.content)}\n</style>`)
+    .join('\n');
+  const scripts = unreferenced
+    .filter(file => extensionOf(file.name) === 'js')
+    .map(file => `<script>\n${escapeScript(file.content)}\n</script>`)
+    .join('\n');
+
+  const head = `${headScript}${styles}`;
+  if (/<head[^>]*>/i.test(html)) {
+    html = html.replace(/<head[^>]*>/i, match => `${match}\n${head}`);
+  } else {
+    html = `${head}\n${html}`;
+  }
+
+  if (/<\/body>/i.test(html)) {
+    html = html.replace(/<\/body>(?![\s\S]*<\/body>)/i, () => `${scripts}\n</body>`);
+  } else {
+    html = `${html}\n${scripts}`;
+  }
+
+  return html;
+};
+
+/**
+ * Script injected ahead of the student's code: forwards console output to the
+ * parent and evaluates `dom` tests against the rendered document on request.
+ */
+const harnessScript = (token: string) => `<script>
+(function () {
+  var token = ${JSON.stringify(token)};
+  var send = function (message) {
+    message.token = token;
+    parent.postMessage(message, '*');
+  };
+  var format = function (arg) {
+    if (typeof arg === 'object' && arg !== null) {
+      try { return JSON.stringify(arg, null, 2); } catch (e) { return String(arg); }
+    }
+    return String(arg);
+  };
+  ['log', 'info', 'warn', 'error', 'table'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      send({ type: 'console', level: level, message: args.map(format).join(' ') });
+      if (original) original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (event) {
+    send({ type: 'console', level: 'error', message: event.message });
+  });
+  window.addEventListener('load', function () {
+    setTimeout(function () { send({ type: 'loaded' }); }, 0);
+  });
+
+  // Helpers available to dom test validations
+  var $ = function (selector) { return document.querySelector(selector); };
+  var $$ = function (selector) { return Array.prototype.slice.call(document.querySelectorAll(selector)); };
+  var find = function (selector) {
+    var element = $(selector);
+    if (!element) throw new Error('No element matches ' + selector);
+    return element;
+  };
+  var click = function (selector) { find(selector).click(); };
+  var type = function (selector, text) {
+    var element = find(selector);
+    element.value = text;
+    element.dispatchEvent(new Event('input', { bubbles: true }));
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+  };
+  var AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== parent || !data || data.token !== token || data.type !== 'runDomTests') return;
+
+    // Tests run one after another since they may change the page
+    var results = [];
+    data.tests.reduce(function (previous, test) {
+      return previous.then(function () {
+        var validate = new AsyncFunction(
+          'document', 'window', '$', '$$', 'click', 'type', 'code', 'consoleOutput', 'files',
+          test.validation
+        );
+        return validate(document, window, $, $$, click, type, test.code, data.consoleOutput, data.files);
+      }).then(function (passed) {
+        results.push({ id: test.id, name: test.name, passed: !!passed, message: passed ? 'Test passed!' : 'Test failed' });
+      }, function (e) {
+        results.push({ id: test.id, name: test.name, passed: false, message: 'Error running test: ' + (e && e.message ? e.message : String(e)) });
+      });
+    }, Promise.resolve()).then(function () {
+      send({ type: 'domTestResults', results: results });
+    });
+  });
+})();
+</script>
+`;
+
+const failAll = (tests: TestCase[], message: string): TestResult[] =>
+  tests.map(test => ({ id: test.id, name: test.name, passed: false, message }));
+
+/**
+ * Render files in a hidden sandboxed iframe. Scripts run with an opaque origin,
+ * so they can't reach the app's DOM, storage or session.
+ */
+export const openPreview = (
+  files: WorkspaceFile[],
+  onConsoleMessage?: (message: ConsoleMessage) => void,
+  timeoutMs: number = DEFAULT_PREVIEW_TIMEOUT_MS
+): PreviewPage => {
+  const token = Math.random().toString(36).slice(2);
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('sandbox', 'allow-scripts');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.style.cssText = 'position:absolute;width:1024px;height:768px;left:-10000px;top:0;border:0;';
+
+  let markLoaded: () => void = () => {};
+  const loaded = new Promise<void>(resolve => { markLoaded = resolve; });
+  let pendingResults: ((results: TestResult[]) => void) | null = null;
+
+  const handleMessage = (event: MessageEvent) => {
+    const data = event.data;
+    if (event.source !== iframe.contentWindow || !data || data.token !== token) return;
+
+    if (data.type === 'console') {
+      onConsoleMessage?.({ level: data.level, message: String(data.message) });
+    } else if (data.type === 'loaded') {
+      markLoaded();
+    } else if (data.type === 'domTestResults') {
+      pendingResults?.(data.results);
+    }
+  };
+
+  window.addEventListener('message', handleMessage);
+  iframe.srcdoc = buildPreviewDocument(files, harnessScript(token));
+  document.body.appendChild(iframe);
+
+  return {
+    loaded,
+    runDomTests: (tests, context) => {
+      if (tests.length === 0) return Promise.resolve([]);
+
+      return new Promise<TestResult[]>((resolve) => {
+        const timer = setTimeout(() => {
+          pendingResults = null;
+          resolve(failAll(tests, `Error running test: page did not respond within ${timeoutMs}ms`));
+        }, timeoutMs);
+
+        pendingResults = (results) => {
+          clearTimeout(timer);
+          pendingResults = null;
+          resolve(results);
+        };
+
+        loaded.then(() => {
+          iframe.contentWindow?.postMessage({
+            type: 'runDomTests',
+            token,
+            files: context.files,
+            consoleOutput: context.consoleOutput,
+            tests: tests.map(test => ({
+              id: test.id,
+              name: test.name,
+              validation: test.validation,
+              code: test.file ? context.files[test.file] ?? '' : context.code,
+            })),
+          }, '*');
+        });
+      });
+    },
+    close: () => {
+      window.removeEventListener('message', handleMessage);
+      iframe.remove();
+    },
+  };
+};
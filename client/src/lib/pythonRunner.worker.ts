@@ -0,0 +1,62 @@
+/**
+ * Web Worker that runs Python code with the locally served Pyodide runtime.
+ * The runtime is loaded once and reused for later runs in the same worker.
+ */
+import type { PyodideInterface } from 'pyodide';
+import { lockDownWorkerScope } from './workerScope';
+
+// Served by the Express app from node_modules/pyodide
+const PYODIDE_URL = '/pyodide/';
+
+const post = (message: unknown) => (self as unknown as Worker).postMessage(message);
+
+let runtime: Promise<PyodideInterface> | null = null;
+
+const loadRuntime = () => {
+  if (!runtime) {
+    post({ type: 'status', message: 'Loading Python runtime...' });
+    runtime = import(/* @vite-ignore */ `${PYODIDE_URL}pyodide.mjs`)
+      .then(({ loadPyodide }) => loadPyodide({ indexURL: PYODIDE_URL }) as Promise<PyodideInterface>)
+      .then((pyodide) => {
+        // Pyodide needs fetch to load itself; Python code doesn't get it
+        lockDownWorkerScope();
+        return pyodide;
+      })
+      .catch((error) => {
+        // Let the next run try loading again
+        runtime = null;
+        throw error;
+      });
+  }
+  return runtime;
+};
+
+// Drop Pyodide's own frames from tracebacks so students only see their code
+const formatPythonError = (error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  const lines = message.trim().split('\n');
+  const firstUserFrame = lines.findIndex(line => line.includes('File "main.py"'));
+  if (firstUserFrame === -1) return message.trim();
+  return [lines[0], ...lines.slice(firstUserFrame)].join('\n');
+};
+
+self.onmessage = async (event: MessageEvent<{ code: string }>) => {
+  let error: string | null = null;
+  try {
+    const pyodide = await loadRuntime();
+    pyodide.setStdout({ batched: (line: string) => post({ type: 'console', level: 'log', message: line }) });
+    pyodide.setStderr({ batched: (line: string) => post({ type: 'console', level: 'error', message: line }) });
+    post({ type: 'started' });
+
+    // Fresh globals for each run so earlier runs don't leak into this one
+    const globals = pyodide.globals.get('dict')();
+    try {
+      pyodide.runPython(event.data.code, { globals, filename: 'main.py' });
+    } finally {
+      globals.destroy();
+    }
+  } catch (e) {
+    error = formatPythonError(e);
+  }
+  post({ type: 'done', error });
+};
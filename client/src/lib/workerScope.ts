@@ -0,0 +1,24 @@
+const BLOCKED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches'];
+
+/**
+ * Remove network and storage APIs from a worker's global scope so student code
+ * can't make requests with the learner's session
+ */
+export const lockDownWorkerScope = () => {
+  for (let scope: object | null = self; scope; scope = Object.getPrototypeOf(scope)) {
+    BLOCKED_GLOBALS.forEach(name => {
+      try {
+        delete (scope as Record<string, unknown>)[name];
+      } catch {
+        // Non-configurable; shadowed below instead
+      }
+    });
+  }
+  BLOCKED_GLOBALS.forEach(name => {
+    try {
+      Object.defineProperty(self, name, { value: undefined, configurable: false, writable: false });
+    } catch {
+      // Already removed
+    }
+  });
+};
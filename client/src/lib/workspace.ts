@@ -0,0 +1,88 @@
+import { runTests, type TestCase, type TestResult } from './codeTests';
+import { formatConsoleMessage, DEFAULT_RUN_TIMEOUT_MS, type ConsoleMessage, type RunResult } from './codeRunner';
+import { openPreview } from './preview';
+
+export interface WorkspaceFile {
+  name: string;
+  content: string;
+}
+
+export interface WorkspaceRunResult extends RunResult {
+  results: TestResult[];
+}
+
+export interface WorkspaceRunHandle {
+  result: Promise<WorkspaceRunResult>;
+  stop: () => void;
+}
+
+/**
+ * Combine workspace files into one string, used for progress and as the default test target
+ */
+export const serializeWorkspace = (files: WorkspaceFile[]): string => {
+  return files.map(file => `--- ${file.name} ---\n${file.content}`).join('\n\n');
+};
+
+/**
+ * Map file names to their contents, as handed to test validations
+ */
+export const workspaceFileMap = (files: WorkspaceFile[]): Record<string, string> => {
+  return Object.fromEntries(files.map(file => [file.name, file.content]));
+};
+
+/**
+ * Render a workspace in a hidden sandboxed iframe, collect its console output and
+ * run the slide's tests. `dom` tests run against the rendered page.
+ */
+export const runWorkspace = (
+  files: WorkspaceFile[],
+  tests: TestCase[],
+  onConsoleMessage: (message: ConsoleMessage) => void,
+  timeoutMs: number = DEFAULT_RUN_TIMEOUT_MS
+): WorkspaceRunHandle => {
+  const consoleOutputs: string[] = [];
+  const page = openPreview(files, (message) => {
+    consoleOutputs.push(formatConsoleMessage(message));
+    onConsoleMessage(message);
+  }, timeoutMs);
+
+  let settled = false;
+  let finish: (outcome: Omit<WorkspaceRunResult, 'output'>) => void = () => {};
+
+  const result = new Promise<WorkspaceRunResult>((resolve) => {
+    const timer = setTimeout(() => {
+      const message = `Execution timed out after ${timeoutMs}ms`;
+      consoleOutputs.push(`Error: ${message}`);
+      onConsoleMessage({ level: 'error', message });
+      finish({
+        error: message,
+        timedOut: true,
+        stopped: false,
+        results: tests.map(test => ({ id: test.id, name: test.name, passed: false, message: 'Test failed: execution timed out' })),
+      });
+    }, timeoutMs);
+
+    finish = (outcome) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      page.close();
+      resolve({ output: consoleOutputs, ...outcome });
+    };
+
+    page.loaded
+      .then(() => runTests(serializeWorkspace(files), tests, consoleOutputs.slice(), files, page))
+      .then(results => finish({ error: null, timedOut: false, stopped: false, results }));
+  });
+
+  return {
+    result,
+    stop: () => {
+      if (settled) return;
+      const message = 'Execution stopped';
+      consoleOutputs.push(`Error: ${message}`);
+      onConsoleMessage({ level: 'error', message });
+      finish({ error: message, timedOut: false, stopped: true, results: [] });
+    },
+  };
+};
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Code, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const isPending = loginMutation.isPending || registerMutation.isPending;
+
+  const handleSubmit = (mode: "login" | "register") => (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+
+    const mutation = mode === "login" ? loginMutation : registerMutation;
+    mutation.mutate({ username: username.trim(), password });
+  };
+
+  const renderForm = (mode: "login" | "register") => (
+    <form className="space-y-4" onSubmit={handleSubmit(mode)}>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-username`}>Username</Label>
+        <Input
+          id={`${mode}-username`}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-password`}>Password</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {mode === "login" ? "Log in" : "Create account"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="container mx-auto py-12 max-w-md px-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-center">
+            <div className="w-8 h-8 rounded-md bg-primary flex items-center justify-center mr-2">
+              <Code className="h-5 w-5 text-white" />
+            </div>
+            <h1 className="text-xl font-display font-bold">Welcome to CodeMumu</h1>
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            Log in to see your lessons, or create an account to get started.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login">Log in</TabsTrigger>
+              <TabsTrigger value="register">Sign up</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">{renderForm("login")}</TabsContent>
+            <TabsContent value="register">{renderForm("register")}</TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,11 +1,11 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Play, BookOpen, Clock, ArrowRight, Plus } from "lucide-react";
+import { Play, BookOpen, Clock, ArrowRight, Plus, Upload } from "lucide-react";
 import ChatPanel from "@/components/ChatPanel";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 export default function Home() {
@@ -15,6 +15,52 @@ export default function Home() {
     queryKey: ["/api/lessons"],
   });
   
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Import a lesson exported from this or another install, or written in Markdown
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const text = await file.text();
+      if (/\.(md|markdown)$/i.test(file.name)) {
+        const response = await apiRequest("POST", "/api/lessons/import/markdown", { markdown: text });
+        return response.json();
+      }
+      
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(text);
+      } catch {
+        throw new Error("The file isn't valid JSON");
+      }
+      const response = await apiRequest("POST", "/api/lessons/import", bundle);
+      return response.json();
+    },
+    onSuccess: (lesson) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/lessons"] });
+      toast({
+        title: "Lesson Imported",
+        description: `"${lesson.title}" has been added to your lessons.`,
+      });
+    },
+    onError: (error: Error) => {
+      // apiRequest errors read `400: {"message":"..."}`
+      const body = error.message.replace(/^\d+: /, "");
+      let description = body;
+      try {
+        description = JSON.parse(body).message || body;
+      } catch {}
+      toast({ title: "Import failed", description, variant: "destructive" });
+    },
+  });
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) {
+      importMutation.mutate(file);
+    }
+  };
+  
   // Handle new lesson creation from chat
   const handleNewLesson = (title: string) => {
     // Refresh the lessons list
@@ -31,12 +77,29 @@ export default function Home() {
     <div className="container mx-auto py-6 max-w-6xl">
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-display font-bold text-gray-900">My Coding Lessons</h1>
-        <Link href="/new-lesson">
-          <Button className="bg-primary/20 hover:bg-primary/30 text-primary border border-primary/30">
-            <Plus className="h-4 w-4 mr-2" />
-            New Lesson
+        <div className="flex items-center gap-2">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json,.md,.markdown,text/markdown"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <Button
+            variant="outline"
+            disabled={importMutation.isPending}
+            onClick={() => importInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import
           </Button>
-        </Link>
+          <Link href="/new-lesson">
+            <Button className="bg-primary/20 hover:bg-primary/30 text-primary border border-primary/30">
+              <Plus className="h-4 w-4 mr-2" />
+              New Lesson
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {isLoading ? (
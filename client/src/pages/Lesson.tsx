@@ -1,27 +1,24 @@
 import { useState, useEffect } from "react";
 import { useParams } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
 import LessonSlides, { Slide } from "@/components/LessonSlides";
 import CodeEditor from "@/components/CodeEditor";
 import ChatPanel from "@/components/ChatPanel";
 import { parseTests, TestResult } from "@/lib/codeTests";
+import { detectRuntime } from "@/lib/codeRunner";
+import { useLesson } from "@/hooks/use-lesson";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
-import { Lesson as LessonType } from "@/types";
 
 export default function Lesson() {
   const { id } = useParams();
   const { toast } = useToast();
-  const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
+  const { user } = useAuth();
+  const { lesson, isLoading, currentSlideIndex, setCurrentSlideIndex, saveProgress } = useLesson(id);
   const [currentCode, setCurrentCode] = useState("");
   const [testResults, setTestResults] = useState<TestResult[]>([]);
 
-  // Fetch the lesson
-  const { data: lesson, isLoading } = useQuery<LessonType>({
-    queryKey: [`/api/lessons/${id}`],
-  });
-
   // When the slide changes, update the code if needed
   useEffect(() => {
     if (lesson?.slides && lesson.slides[currentSlideIndex]) {
@@ -32,12 +29,22 @@ export default function Lesson() {
     }
   }, [currentSlideIndex, lesson, currentCode]);
 
-  // Handle test completion
-  const handleTestsComplete = (results: TestResult[]) => {
+  // Handle test completion. Graded runs are recorded by the server, which decides
+  // whether the slide is completed; other runs only save the latest attempt
+  const handleTestsComplete = (results: TestResult[], recorded: boolean) => {
     setTestResults(results);
     
-    const allPassed = results.every(result => result.passed);
-    if (allPassed) {
+    const slide = lesson?.slides[currentSlideIndex];
+    if (recorded) {
+      queryClient.invalidateQueries({ queryKey: [`/api/lessons/${id}`] });
+    } else if (slide) {
+      saveProgress({
+        slideId: slide.id,
+        progress: { code: currentCode, testResults: results },
+      });
+    }
+    
+    if (results.every(result => result.passed)) {
       toast({
         title: "All tests passed! 🎉",
         description: "Great job! You can move to the next slide.",
@@ -51,6 +58,12 @@ export default function Lesson() {
     setCurrentCode(code);
   };
 
+  // Test results belong to the slide they were run on
+  const handleSlideChange = (index: number) => {
+    setCurrentSlideIndex(index);
+    setTestResults([]);
+  };
+
   if (isLoading) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -84,33 +97,43 @@ export default function Lesson() {
   }
 
   const currentSlide = lesson.slides[currentSlideIndex] || {};
+  const isPython = detectRuntime(currentSlide.filename, lesson.language) === 'python';
   
   return (
     <div className="flex h-full overflow-hidden">
       {/* Lesson Slides Panel */}
       <LessonSlides
+        lessonId={lesson.id}
         lessonTitle={lesson.title}
         slides={lesson.slides}
         currentSlideIndex={currentSlideIndex}
-        onSlideChange={setCurrentSlideIndex}
+        onSlideChange={handleSlideChange}
         format={lesson.format || 'markdown'}
         testResults={testResults}
         lessonStyle={lesson.styleName || ''}
         lessonCss={lesson.cssContent || ''}
         lessonJs={lesson.jsContent || ''}
+        canEdit={user != null && lesson.userId === user.id}
       />
       
       {/* Code Editor */}
       <CodeEditor
-        initialCode={currentSlide.initialCode || "// Write your code here\n"}
-        filename={currentSlide.filename || "script.js"}
+        key={currentSlide.id}
+        initialCode={currentSlide.initialCode || (isPython ? "# Write your code here\n" : "// Write your code here\n")}
+        filename={currentSlide.filename || (isPython ? "main.py" : "script.js")}
+        language={lesson.language}
+        files={currentSlide.files}
         tests={currentSlide.tests || []}
+        slideId={currentSlide.id}
         onTestsComplete={handleTestsComplete}
         onCodeChange={handleCodeChange}
       />
       
       {/* Chat Panel */}
-      <ChatPanel lessonId={id} />
+      <ChatPanel
+        lessonId={id}
+        context={{ slideId: currentSlide.id, code: currentCode, testResults }}
+      />
     </div>
   );
 }
@@ -12,6 +12,7 @@ export interface Lesson {
   styleName?: string;
   cssContent?: string;
   jsContent?: string;
+  userId?: number | null; // The owner, the only user who can change it; null for the shared samples
 }
 
 export interface Slide {
@@ -22,20 +23,40 @@ export interface Slide {
   type: 'info' | 'challenge' | 'quiz';
   order: number;
   tags: string[];
-  completed?: boolean;
+  completed?: boolean; // Whether the current user has completed this slide
+  progress?: SlideProgress | null;
   initialCode?: string;
   filename?: string;
   cssContent?: string;
   jsContent?: string;
+  files?: WorkspaceFile[];
   tests?: {
     id: string;
     name: string;
     description: string;
     validation: string;
-    type: 'regex' | 'js';
+    type: 'regex' | 'js' | 'dom' | 'unit';
+    file?: string;
   }[];
 }
 
+export interface WorkspaceFile {
+  name: string;
+  content: string;
+}
+
+export interface SlideProgress {
+  id: number;
+  userId: number;
+  lessonId: number;
+  slideId: number;
+  completed: boolean;
+  lastCode?: string | null;
+  testResults?: TestResult[];
+  completedAt?: string | null;
+  updatedAt: string;
+}
+
 export interface Chat {
   id: number;
   lessonId?: number;
@@ -49,15 +70,85 @@ export interface Message {
   id: number;
   role: 'user' | 'assistant' | 'system';
   content: string;
+  toolCalls?: ToolCall[]; // Actions the assistant took while writing this reply
+  actions?: MessageAction[];
   timestamp: string | number;
 }
 
+export interface LessonStyleOption {
+  id: string;
+  name: string;
+  emoji: string;
+  description: string;
+}
+
+// A change to a slide proposed by the assistant, applied only once the user accepts it
+export interface SlideEdit {
+  id: string;
+  lessonId: number;
+  slideId: number;
+  slideTitle: string;
+  status: 'pending' | 'accepted' | 'rejected';
+  before: Record<string, unknown>; // The changed slide fields as they were when proposed
+  after: Record<string, unknown>;
+}
+
+// Structured parts of an assistant reply, each rendered by its own component
+export type MessageAction =
+  | { kind: 'choose_style'; topic: string; difficulty?: string; options: LessonStyleOption[] }
+  | { kind: 'lesson_job'; jobId: string } // A lesson is being generated in the background
+  | { kind: 'lesson_created'; lessonId: number; title: string }
+  | { kind: 'slide_edit'; edit: SlideEdit };
+
+// Who or what made a change recorded in the revision history
+export type RevisionSource =
+  | { kind: 'initial' } // The content as it was before its first recorded change
+  | { kind: 'user'; userId: number }
+  | { kind: 'assistant'; tool: string; chatId?: number; messageId?: number; userId?: number } // userId accepted the change
+  | { kind: 'restore'; userId: number; revision: number };
+
+// A slide (or, without slideId, the lesson) as it was after a recorded change
+export interface Revision {
+  id: number;
+  lessonId: number;
+  slideId: number | null;
+  revision: number;
+  snapshot: Record<string, unknown>;
+  source: RevisionSource;
+  createdAt: string;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  result: any;
+  status: 'success' | 'error' | 'running'; // running only while the reply is streaming
+  step: number;
+}
+
+export interface LessonJob {
+  id: string;
+  status: 'queued' | 'running' | 'failed' | 'done';
+  progress: {
+    message: string;
+    completedSlides: number;
+    totalSlides: number; // 0 until the model has planned the slides
+  };
+  lessonId?: number; // Set once the job is done
+  lessonTitle?: string;
+  error?: string; // Set when the job failed
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Test {
   id: string;
   name: string;
   description: string;
   validation: string;
-  type: 'regex' | 'js';
+  type: 'regex' | 'js' | 'dom' | 'unit';
+  file?: string;
 }
 
 export interface TestResult {
@@ -66,3 +157,15 @@ export interface TestResult {
   passed: boolean;
   message?: string;
 }
+
+// What the user has on screen, sent with each chat message so edits target the right slide
+export interface ChatContext {
+  slideId?: string;
+  code?: string;
+  testResults?: TestResult[];
+}
+
+export interface User {
+  id: number;
+  username: string;
+}
@@ -0,0 +1,94 @@
+/**
+ * The chat socket, served by `registerRoutes` on an ephemeral port with the
+ * default storage and the fixture-replay LLM.
+ *
+ * Run with `npm test`.
+ */
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import WebSocket from 'ws';
+import { registerRoutes } from './routes';
+import { storage } from './storage';
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  // Session lookups take a while with a database-backed store, which is when
+  // an early message used to beat the socket's session
+  const store = storage.sessionStore;
+  const get = store.get.bind(store);
+  store.get = (sid, callback) => setTimeout(() => get(sid, callback), 50);
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+async function post(path: string, body: object, cookie?: string) {
+  return fetch(`http://${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(cookie ? { cookie } : {}) },
+    body: JSON.stringify(body),
+  });
+}
+
+async function signUp(username: string) {
+  const res = await post('/api/auth/register', { username, password: 'secret' });
+  assert.equal(res.status, 201);
+  return res.headers.get('set-cookie')!.split(';')[0];
+}
+
+/** Resolves with the first event for `requestId` that ends the reply */
+function nextReply(ws: WebSocket, requestId: string) {
+  return new Promise<any>(resolve => {
+    ws.on('message', raw => {
+      const event = JSON.parse(raw.toString());
+      if (event.requestId === requestId && (event.type === 'chat_done' || event.type === 'error')) {
+        resolve(event);
+      }
+    });
+  });
+}
+
+describe('chat socket', () => {
+  it('answers a message sent as soon as the socket opens', async () => {
+    const cookie = await signUp('first-message');
+    const chat = await (await post('/api/chats', {}, cookie)).json();
+
+    const ws = new WebSocket(`ws://${baseUrl}/ws`, { headers: { cookie } });
+    try {
+      const reply = new Promise<any>((resolve, reject) => {
+        ws.on('open', () => {
+          ws.send(JSON.stringify({ type: 'chat_message', chatId: chat.id, content: 'Hi!', requestId: 'r1' }));
+          nextReply(ws, 'r1').then(resolve);
+        });
+        ws.on('error', reject);
+      });
+
+      const event = await reply;
+      assert.equal(event.type, 'chat_done', event.error);
+      assert.equal(event.chatId, chat.id);
+      assert.equal(event.message.role, 'assistant');
+    } finally {
+      ws.close();
+    }
+  });
+
+  it("refuses to open without a signed-in session", async () => {
+    const ws = new WebSocket(`ws://${baseUrl}/ws`);
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      ws.on('unexpected-response', (_req, res) => resolve(res.statusCode));
+      ws.on('open', () => reject(new Error('The socket opened')));
+      ws.on('error', reject);
+    });
+    assert.equal(status, 401);
+  });
+});
@@ -0,0 +1,21 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create a Drizzle database client for the given Postgres connection string
+ */
+export function createDb(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+/**
+ * Any Drizzle Postgres client for the app's schema, so storage also runs on
+ * other drivers (the storage tests use an in-process Postgres)
+ */
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
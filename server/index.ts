@@ -1,11 +1,19 @@
 import express, { type Request, Response, NextFunction } from "express";
+import path from "path";
+import { createRequire } from "module";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// Imported lessons carry every slide's code and tests, so they get more room than other requests
+app.use("/api/lessons/import", express.json({ limit: "5mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
+// Serve the bundled Pyodide runtime so Python challenges run without a CDN
+const pyodideDir = path.dirname(createRequire(import.meta.url).resolve("pyodide/package.json"));
+app.use("/pyodide", express.static(pyodideDir, { maxAge: "7d" }));
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
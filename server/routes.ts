@@ -1,16 +1,34 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { restackOpenAIService } from "./services/restack/openaiService";
-import { WebSocketServer } from "ws";
+import { runInSandbox, type SandboxTest } from "./services/sandbox";
+import { lessonJobs } from "./services/lessonJobs";
+import { resolveSlideEdit, SlideEditError } from "./services/slideEdits";
+import { findRevision, restoreRevision, updateSlideWithHistory } from "./services/revisions";
+import { exportLessonBundle, importLessonBundle, LessonBundleError, parseLessonBundle } from "./services/lessonBundle";
+import { renderLessonSite } from "./services/lessonSite";
+import { markdownImportSchema, markdownToLessonBundle } from "./services/markdownLesson";
+import { WebSocketServer, type WebSocket } from "ws";
+import { setupAuth, requireAuth, canReadLesson, canEditLesson } from "./auth";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { chatContextSchema, updateSlideSchema, type Lesson } from "@shared/schema";
+
+// File name for a downloaded lesson, e.g. "javascript-basics"
+function downloadName(lesson: Lesson) {
+  return lesson.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "lesson";
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  const sessionMiddleware = setupAuth(app);
+
   // API routes
   
   // Lessons
-  app.get("/api/lessons", async (_req, res) => {
+  app.get("/api/lessons", requireAuth, async (req, res) => {
     try {
-      const lessons = await storage.getLessons();
+      const lessons = await storage.getLessonsByUserId(req.user!.id);
       res.json(lessons);
     } catch (error) {
       console.error("Error fetching lessons:", error);
@@ -18,22 +36,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/lessons/:id", async (req, res) => {
+  app.get("/api/lessons/:id", requireAuth, async (req, res) => {
     try {
       const lessonId = parseInt(req.params.id);
       const lesson = await storage.getLesson(lessonId);
 
-      if (!lesson) {
+      if (!lesson || !canReadLesson(lesson, req.user!.id)) {
         return res.status(404).json({ message: "Lesson not found" });
       }
 
       // Get slides for this lesson
       const slides = await storage.getSlidesByLessonId(lessonId);
       
+      // Merge in the caller's own progress on each slide
+      const progress = await storage.getSlideProgress(req.user!.id, lessonId);
+      const progressBySlide = new Map(progress.map(p => [p.slideId, p]));
+      
       // Return lesson with slides
       res.json({
         ...lesson,
-        slides: slides.sort((a, b) => a.order - b.order),
+        slides: slides
+          .sort((a, b) => a.order - b.order)
+          .map(slide => {
+            const slideProgress = progressBySlide.get(slide.id);
+            return {
+              ...slide,
+              completed: slideProgress?.completed ?? false,
+              progress: slideProgress ?? null,
+            };
+          }),
       });
     } catch (error) {
       console.error("Error fetching lesson:", error);
@@ -41,7 +72,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/lessons", async (req, res) => {
+  app.post("/api/lessons", requireAuth, async (req, res) => {
     try {
       const { topic, difficulty, description, format } = req.body;
       
@@ -49,38 +80,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Topic is required" });
       }
 
-      // Generate a lesson using AI with the Restack OpenAI integration
-      const generatedLesson = await restackOpenAIService.generateLesson(topic, difficulty, format || "html");
-      
-      // Create lesson in storage
-      const lesson = await storage.createLesson({
-        title: generatedLesson.title,
-        description: generatedLesson.description,
-        difficulty: difficulty || "beginner",
-        language: generatedLesson.language || "javascript",
-        format: format || "html",
-        estimatedTime: generatedLesson.estimatedTime || "15 min",
-      });
-
-      // Create slides
-      if (generatedLesson.slides && generatedLesson.slides.length > 0) {
-        for (let i = 0; i < generatedLesson.slides.length; i++) {
-          const slideData = generatedLesson.slides[i];
-          await storage.createSlide({
-            lessonId: lesson.id,
-            title: slideData.title,
-            content: slideData.content,
-            type: slideData.type,
-            order: i,
-            tags: slideData.tags || [],
-            initialCode: slideData.initialCode,
-            filename: slideData.filename,
-            cssContent: slideData.cssContent,
-            jsContent: slideData.jsContent,
-            tests: slideData.tests || [],
-          });
-        }
-      }
+      // Generate a lesson using AI with the Restack OpenAI integration; it saves the lesson and its slides
+      const lesson = await restackOpenAIService.generateLesson(topic, difficulty, format || "html", { userId: req.user!.id });
 
       res.status(201).json(lesson);
     } catch (error) {
@@ -89,16 +90,138 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download a lesson and its slides as a bundle that can be imported elsewhere
+  app.get("/api/lessons/:id/export", requireAuth, async (req, res) => {
+    try {
+      const lessonId = parseInt(req.params.id);
+      const lesson = await storage.getLesson(lessonId);
+      if (!lesson || !canReadLesson(lesson, req.user!.id)) {
+        return res.status(404).json({ message: "Lesson not found" });
+      }
+      
+      const slides = await storage.getSlidesByLessonId(lessonId);
+      res.setHeader("Content-Disposition", `attachment; filename="${downloadName(lesson)}.lesson.json"`);
+      res.json(exportLessonBundle(lesson, slides));
+    } catch (error) {
+      console.error("Error exporting lesson:", error);
+      res.status(500).json({ message: "Failed to export lesson" });
+    }
+  });
+
+  // Download a lesson as a single HTML file that works offline
+  app.get("/api/lessons/:id/export/html", requireAuth, async (req, res) => {
+    try {
+      const lessonId = parseInt(req.params.id);
+      const lesson = await storage.getLesson(lessonId);
+      if (!lesson || !canReadLesson(lesson, req.user!.id)) {
+        return res.status(404).json({ message: "Lesson not found" });
+      }
+      
+      const slides = await storage.getSlidesByLessonId(lessonId);
+      res.setHeader("Content-Disposition", `attachment; filename="${downloadName(lesson)}.html"`);
+      res.type("html").send(renderLessonSite(lesson, slides));
+    } catch (error) {
+      console.error("Error exporting lesson site:", error);
+      res.status(500).json({ message: "Failed to export lesson" });
+    }
+  });
+
+  // Recreate an exported lesson, owned by the caller
+  app.post("/api/lessons/import", requireAuth, async (req, res) => {
+    try {
+      const bundle = parseLessonBundle(req.body);
+      const lesson = await importLessonBundle(bundle, req.user!.id);
+      res.status(201).json(lesson);
+    } catch (error) {
+      if (error instanceof LessonBundleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error importing lesson:", error);
+      res.status(500).json({ message: "Failed to import lesson" });
+    }
+  });
+
+  // Create a lesson from a Markdown document, one slide per `---` section or `# ` heading
+  app.post("/api/lessons/import/markdown", requireAuth, async (req, res) => {
+    try {
+      const parsed = markdownImportSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const { markdown, ...details } = parsed.data;
+      const bundle = markdownToLessonBundle(markdown, details);
+      const lesson = await importLessonBundle(bundle, req.user!.id);
+      res.status(201).json(lesson);
+    } catch (error) {
+      if (error instanceof LessonBundleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error importing Markdown lesson:", error);
+      res.status(500).json({ message: "Failed to import lesson" });
+    }
+  });
+
+  // Revision history of a lesson and its slides, newest first
+  app.get("/api/lessons/:id/history", requireAuth, async (req, res) => {
+    try {
+      const lessonId = parseInt(req.params.id);
+      const lesson = await storage.getLesson(lessonId);
+      if (!lesson || !canReadLesson(lesson, req.user!.id)) {
+        return res.status(404).json({ message: "Lesson not found" });
+      }
+      
+      const history = await storage.getRevisions(lessonId);
+      res.json(history.reverse());
+    } catch (error) {
+      console.error("Error fetching lesson history:", error);
+      res.status(500).json({ message: "Failed to fetch lesson history" });
+    }
+  });
+
+  // Put a lesson's details back the way they were at an earlier revision
+  app.post("/api/lessons/:id/restore/:revision", requireAuth, async (req, res) => {
+    try {
+      const lessonId = parseInt(req.params.id);
+      const lesson = await storage.getLesson(lessonId);
+      if (!lesson || !canReadLesson(lesson, req.user!.id)) {
+        return res.status(404).json({ message: "Lesson not found" });
+      }
+      if (!canEditLesson(lesson, req.user!.id)) {
+        return res.status(403).json({ message: "Shared lessons can't be changed" });
+      }
+      
+      const revision = await findRevision(lessonId, null, parseInt(req.params.revision));
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      res.json(await restoreRevision(revision, req.user!.id));
+    } catch (error) {
+      console.error("Error restoring lesson:", error);
+      res.status(500).json({ message: "Failed to restore lesson" });
+    }
+  });
+
   // Create new slide
-  app.post("/api/lessons/:lessonId/slides", async (req, res) => {
+  app.post("/api/lessons/:lessonId/slides", requireAuth, async (req, res) => {
     try {
       const lessonId = parseInt(req.params.lessonId);
       
       // Validate if lesson exists
       const lesson = await storage.getLesson(lessonId);
-      if (!lesson) {
+      if (!lesson || !canReadLesson(lesson, req.user!.id)) {
         return res.status(404).json({ message: "Lesson not found" });
       }
+      if (!canEditLesson(lesson, req.user!.id)) {
+        return res.status(403).json({ message: "Shared lessons can't be changed" });
+      }
       
       // Get existing slides to determine order
       const slides = await storage.getSlidesByLessonId(lessonId);
@@ -130,17 +253,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update existing slide
-  app.patch("/api/lessons/:lessonId/slides/:slideId", async (req, res) => {
+  app.patch("/api/lessons/:lessonId/slides/:slideId", requireAuth, async (req, res) => {
     try {
       const lessonId = parseInt(req.params.lessonId);
       const slideId = parseInt(req.params.slideId);
       
+      const changes = updateSlideSchema.safeParse(req.body);
+      if (!changes.success) {
+        return res.status(400).json({ message: fromZodError(changes.error).message });
+      }
+      
+      const lesson = await storage.getLesson(lessonId);
       const slide = await storage.getSlide(slideId);
-      if (!slide || slide.lessonId !== lessonId) {
+      if (!lesson || !canReadLesson(lesson, req.user!.id) || !slide || slide.lessonId !== lessonId) {
         return res.status(404).json({ message: "Slide not found" });
       }
+      if (!canEditLesson(lesson, req.user!.id)) {
+        return res.status(403).json({ message: "Shared lessons can't be changed" });
+      }
       
-      const updatedSlide = await storage.updateSlide(slideId, req.body);
+      const updatedSlide = await updateSlideWithHistory(slideId, changes.data, { kind: "user", userId: req.user!.id });
       res.json(updatedSlide);
     } catch (error) {
       console.error("Error updating slide:", error);
@@ -148,16 +280,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Put a slide back the way it was at an earlier revision
+  app.post("/api/slides/:id/restore/:revision", requireAuth, async (req, res) => {
+    try {
+      const slide = await storage.getSlide(parseInt(req.params.id));
+      const lesson = slide && await storage.getLesson(slide.lessonId);
+      if (!slide || !lesson || !canReadLesson(lesson, req.user!.id)) {
+        return res.status(404).json({ message: "Slide not found" });
+      }
+      if (!canEditLesson(lesson, req.user!.id)) {
+        return res.status(403).json({ message: "Shared lessons can't be changed" });
+      }
+      
+      const revision = await findRevision(lesson.id, slide.id, parseInt(req.params.revision));
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      res.json(await restoreRevision(revision, req.user!.id));
+    } catch (error) {
+      console.error("Error restoring slide:", error);
+      res.status(500).json({ message: "Failed to restore slide" });
+    }
+  });
+  
   // Delete slide
-  app.delete("/api/lessons/:lessonId/slides/:slideId", async (req, res) => {
+  app.delete("/api/lessons/:lessonId/slides/:slideId", requireAuth, async (req, res) => {
     try {
       const lessonId = parseInt(req.params.lessonId);
       const slideId = parseInt(req.params.slideId);
       
+      const lesson = await storage.getLesson(lessonId);
       const slide = await storage.getSlide(slideId);
-      if (!slide || slide.lessonId !== lessonId) {
+      if (!lesson || !canReadLesson(lesson, req.user!.id) || !slide || slide.lessonId !== lessonId) {
         return res.status(404).json({ message: "Slide not found" });
       }
+      if (!canEditLesson(lesson, req.user!.id)) {
+        return res.status(403).json({ message: "Shared lessons can't be changed" });
+      }
       
       // Delete the slide
       await storage.deleteSlide(slideId);
@@ -179,11 +339,116 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Save the caller's latest code and results on a slide. Completion is only
+  // earned by passing the tests in the server sandbox (POST /api/run)
+  app.put("/api/lessons/:lessonId/slides/:slideId/progress", requireAuth, async (req, res) => {
+    try {
+      const lessonId = parseInt(req.params.lessonId);
+      const slideId = parseInt(req.params.slideId);
+      
+      const lesson = await storage.getLesson(lessonId);
+      const slide = await storage.getSlide(slideId);
+      if (!lesson || !canReadLesson(lesson, req.user!.id) || !slide || slide.lessonId !== lessonId) {
+        return res.status(404).json({ message: "Slide not found" });
+      }
+      
+      const { code, testResults } = req.body;
+      
+      // Completion is sticky: keep the first completion time once a slide is done
+      const existing = (await storage.getSlideProgress(req.user!.id, lessonId))
+        .find(p => p.slideId === slideId);
+      const isCompleted = existing?.completed ?? false;
+      
+      const progress = await storage.upsertSlideProgress({
+        userId: req.user!.id,
+        lessonId,
+        slideId,
+        completed: isCompleted,
+        lastCode: typeof code === "string" ? code : undefined,
+        testResults: Array.isArray(testResults) ? testResults : undefined,
+        completedAt: isCompleted ? existing?.completedAt ?? new Date() : null,
+      });
+      
+      res.json(progress);
+    } catch (error) {
+      console.error("Error saving slide progress:", error);
+      res.status(500).json({ message: "Failed to save progress" });
+    }
+  });
+
+  // Run code (and a slide's tests) in the server sandbox
+  app.post("/api/run", requireAuth, async (req, res) => {
+    try {
+      const { code, slideId } = req.body;
+      if (typeof code !== "string") {
+        return res.status(400).json({ message: "Code is required" });
+      }
+      
+      // Tests always come from the stored slide so results can't be tampered with
+      let tests: SandboxTest[] = [];
+      let slide;
+      if (slideId != null) {
+        slide = await storage.getSlide(parseInt(slideId));
+        const lesson = slide && await storage.getLesson(slide.lessonId);
+        if (!slide || !lesson || !canReadLesson(lesson, req.user!.id)) {
+          return res.status(404).json({ message: "Slide not found" });
+        }
+        tests = slide.tests || [];
+      }
+      
+      const result = await runInSandbox(code, tests);
+      
+      // Record the graded attempt; completion stays sticky once earned. dom tests
+      // need a rendered page, so the slide is graded on the tests the sandbox can run
+      const graded = result.results.filter(r => tests.find(test => test.id === r.id)?.type !== "dom");
+      if (slide && graded.length > 0) {
+        const existing = (await storage.getSlideProgress(req.user!.id, slide.lessonId))
+          .find(p => p.slideId === slide.id);
+        const isCompleted = existing?.completed || graded.every(r => r.passed);
+        
+        await storage.upsertSlideProgress({
+          userId: req.user!.id,
+          lessonId: slide.lessonId,
+          slideId: slide.id,
+          completed: isCompleted,
+          lastCode: code,
+          testResults: result.results,
+          completedAt: isCompleted ? existing?.completedAt ?? new Date() : null,
+        });
+      }
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error running code:", error);
+      res.status(500).json({ message: "Failed to run code" });
+    }
+  });
+
+  // Lesson generation jobs
+  app.get("/api/jobs/:id", requireAuth, async (req, res) => {
+    try {
+      const job = lessonJobs.getJob(req.params.id);
+      if (!job || job.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ message: "Failed to fetch job" });
+    }
+  });
+
   // Chats
-  app.get("/api/chats/:lessonId", async (req, res) => {
+  app.get("/api/chats/:lessonId", requireAuth, async (req, res) => {
     try {
       const lessonId = parseInt(req.params.lessonId);
-      const chat = await storage.getChatByLessonId(lessonId);
+      const lesson = await storage.getLesson(lessonId);
+      if (!lesson || !canReadLesson(lesson, req.user!.id)) {
+        return res.status(404).json({ message: "Chat not found" });
+      }
+
+      const chat = await storage.getChatByLessonId(lessonId, req.user!.id);
       
       if (!chat) {
         return res.status(404).json({ message: "Chat not found" });
@@ -203,20 +468,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/chats", async (req, res) => {
+  app.post("/api/chats", requireAuth, async (req, res) => {
     try {
       const { lessonId } = req.body;
       
       let title = "New Chat";
       if (lessonId) {
         const lesson = await storage.getLesson(parseInt(lessonId));
-        if (lesson) {
-          title = `Chat for ${lesson.title}`;
+        if (!lesson || !canReadLesson(lesson, req.user!.id)) {
+          return res.status(404).json({ message: "Lesson not found" });
         }
+        title = `Chat for ${lesson.title}`;
       }
       
       const chat = await storage.createChat({
         lessonId: lessonId ? parseInt(lessonId) : undefined,
+        userId: req.user!.id,
         title,
       });
       
@@ -238,7 +505,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Messages
-  app.post("/api/chats/:chatId/messages", async (req, res) => {
+  app.post("/api/chats/:chatId/messages", requireAuth, async (req, res) => {
     try {
       const chatId = parseInt(req.params.chatId);
       const { content } = req.body;
@@ -247,69 +514,144 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Message content is required" });
       }
       
+      // What the user has on screen: the active slide, their code and test results
+      const context = chatContextSchema.safeParse(req.body.context ?? {});
+      if (!context.success) {
+        return res.status(400).json({ message: fromZodError(context.error).message });
+      }
+      
       const chat = await storage.getChat(chatId);
-      if (!chat) {
+      if (!chat || chat.userId !== req.user!.id) {
         return res.status(404).json({ message: "Chat not found" });
       }
       
-      // Store user message
-      await storage.createMessage({
-        chatId,
-        role: "user",
-        content,
-      });
-      
-      // Generate AI response using Restack OpenAI integration
+      // Generate AI response using Restack OpenAI integration; it stores the user
+      // message and the reply, including any tool calls made along the way
       // Handle the case where lessonId might be null
       const lessonId = typeof chat.lessonId === 'number' ? chat.lessonId : undefined;
-      const aiResponse = await restackOpenAIService.generateResponse(content, chatId, lessonId);
-      
-      // Store AI message
-      const message = await storage.createMessage({
-        chatId,
-        role: "assistant",
-        content: aiResponse,
-      });
+      const aiResponse = await restackOpenAIService.generateResponse(content, chatId, lessonId, context.data);
       
-      res.json(message);
+      res.json(aiResponse.message);
     } catch (error) {
       console.error("Error creating message:", error);
       res.status(500).json({ message: "Failed to create message" });
     }
   });
 
+  // Accept or reject a slide edit the assistant proposed in a message
+  app.post("/api/chats/:chatId/messages/:messageId/edits/:editId/:decision", requireAuth, async (req, res) => {
+    try {
+      const chatId = parseInt(req.params.chatId);
+      const messageId = parseInt(req.params.messageId);
+      const { editId, decision } = req.params;
+      
+      if (decision !== "accept" && decision !== "reject") {
+        return res.status(400).json({ message: "Decision must be accept or reject" });
+      }
+      
+      const chat = await storage.getChat(chatId);
+      const message = await storage.getMessage(messageId);
+      if (!chat || chat.userId !== req.user!.id || !message || message.chatId !== chatId) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      
+      const updatedMessage = await resolveSlideEdit(message, editId, decision === "accept", req.user!.id);
+      res.json(updatedMessage);
+    } catch (error) {
+      if (error instanceof SlideEditError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error resolving slide edit:", error);
+      res.status(500).json({ message: "Failed to resolve slide edit" });
+    }
+  });
+
   const httpServer = createServer(app);
   
-  // Create WebSocket server
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // Create WebSocket server. Upgrades are accepted by hand so the session is
+  // known before the first message can arrive
+  const wss = new WebSocketServer({ noServer: true });
   
-  wss.on('connection', (ws) => {
+  httpServer.on('upgrade', (req, socket, head) => {
+    // Other upgrades (Vite's HMR socket in development) have their own handlers
+    if (new URL(req.url ?? '', 'http://localhost').pathname !== '/ws') return;
+    
+    // Reuse the HTTP session cookie to identify the user on this socket
+    sessionMiddleware(req as Request, {} as Response, (error?: unknown) => {
+      if (error || (req as Request).session?.passport?.user == null) {
+        // Refused before opening, so clients fall back to HTTP, which reports the 401
+        socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+    });
+  });
+  
+  // Open sockets by user, so job progress reaches every tab of the job's owner
+  const socketsByUser = new Map<number, Set<WebSocket>>();
+  
+  lessonJobs.subscribe((job) => {
+    const event = JSON.stringify({ type: 'job_progress', job });
+    socketsByUser.get(job.userId)?.forEach(socket => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(event);
+      }
+    });
+  });
+  
+  wss.on('connection', (ws, req) => {
     console.log('WebSocket client connected');
     
+    // The upgrade only went ahead once the session was loaded
+    const userId = (req as Request).session.passport!.user!;
+    const sockets = socketsByUser.get(userId) ?? new Set<WebSocket>();
+    sockets.add(ws);
+    socketsByUser.set(userId, sockets);
+    
     ws.on('message', async (message) => {
+      let requestId: string | undefined;
       try {
         const data = JSON.parse(message.toString());
+        requestId = data.requestId;
         
         if (data.type === 'chat_message') {
-          const { chatId, content, lessonId } = data;
-          
-          // Generate AI response using Restack OpenAI integration
-          const response = await restackOpenAIService.generateResponse(content, chatId, lessonId);
+          const { chatId, content } = data;
           
-          // Send the response back to the client
-          if (ws.readyState === ws.OPEN) {
-            ws.send(JSON.stringify({
-              type: 'chat_response',
-              chatId,
-              response
-            }));
+          const chat = await storage.getChat(chatId);
+          if (!chat || chat.userId !== userId) {
+            throw new Error('Chat not found');
+          }
+          if (!content) {
+            throw new Error('Message content is required');
+          }
+          const context = chatContextSchema.safeParse(data.context ?? {});
+          if (!context.success) {
+            throw new Error(fromZodError(context.error).message);
           }
+          
+          // Every event for this message carries the client's requestId so replies can be matched up
+          const send = (event: Record<string, any>) => {
+            if (ws.readyState === ws.OPEN) {
+              ws.send(JSON.stringify({ ...event, chatId, requestId }));
+            }
+          };
+          
+          // Stream the reply as it is generated, then send the stored message
+          const lessonId = typeof chat.lessonId === 'number' ? chat.lessonId : undefined;
+          const response = await restackOpenAIService.generateResponse(content, chatId, lessonId, context.data, {
+            onDelta: (delta) => send({ type: 'chat_delta', delta }),
+            onToolStarted: (toolCall) => send({ type: 'tool_started', toolCall }),
+            onInvocation: (toolCall) => send({ type: 'tool_finished', toolCall }),
+          });
+          
+          send({ type: 'chat_done', message: response.message });
         }
       } catch (error: any) {
         console.error('Error processing WebSocket message:', error);
         if (ws.readyState === ws.OPEN) {
           ws.send(JSON.stringify({
             type: 'error',
+            requestId,
             error: error.message
           }));
         }
@@ -318,6 +660,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     ws.on('close', () => {
       console.log('WebSocket client disconnected');
+      
+      sockets.delete(ws);
+      if (sockets.size === 0) socketsByUser.delete(userId);
     });
   });
   
@@ -170,9 +170,7 @@ class AIService {
           // Return immediate confirmation response
           return `Great choice! I'll use the "${this.getStyleDisplayName(style)}" style for this lesson. 
 
-I'm generating your lesson about "${topic}" now. This will take a few moments. You'll see the new lesson appear in your list when it's ready!
-
-__LESSON_GENERATING__:${topic}:${style}`;
+I'm generating your lesson about "${topic}" now. This will take a few moments. You'll see the new lesson appear in your list when it's ready!`;
         }
       }
       
@@ -0,0 +1,134 @@
+import type { LessonStyleOption } from "@shared/schema";
+import type { IntentContext, IntentResult } from "./types";
+
+const ORDINALS = ["first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth"];
+
+// Messages this short that name an option number are answers to the style question
+const MAX_CHOICE_WORDS = 6;
+
+const PROGRAMMING_TERMS = [
+  "javascript", "python", "java", "c\\+\\+", "html", "css",
+  "react", "node", "express", "vue", "angular", "typescript",
+  "arrays", "functions", "loops", "objects", "classes",
+  "variables", "data structures", "algorithms", "web development",
+];
+
+const CREATE_PATTERNS = [
+  /\b(create|make|generate|build|write|design|prepare)\b.{0,40}\b(lesson|tutorial|course)\b/i,
+  /\bnew\b.{0,30}\blesson\b/i,
+  /\bteach me (about|how to)\b/i,
+  /\b(can|could) you (make|create|write) (me )?an? /i,
+];
+
+const AMEND_PATTERN = /\b(drop|remove|delete|skip|cut|add|insert|include|rename|retitle)\b.{0,40}\b(slides?|one|section|quiz|challenge)\b/i;
+
+const EDIT_PATTERN = /\b(edit|update|change|modify|improve|fix|rewrite|rework|simplify|shorten|expand)\b.{0,40}\bslide\b/i;
+
+/** Drop the persona prefix the client adds, e.g. "[As Baloo the Lesson Creator 🐻] " */
+export function stripPersona(message: string): string {
+  return message.replace(/^\s*\[As [^\]]+\]\s*/i, "").trim();
+}
+
+function extractTopic(message: string): string | null {
+  const patterns = [
+    /\b(?:lesson|tutorial|course)\b[^.?!]*?\b(?:about|on|covering|for)\s+([^,.?!]+)/i,
+    /\bteach me (?:about\s+)?(how to [^,.?!]+|[^,.?!]+)/i,
+    /\babout\s+([^,.?!]+)/i,
+  ];
+  for (const pattern of patterns) {
+    const match = message.match(pattern);
+    if (match && match[1]) {
+      // Trailing requests like "with the neon racer style" aren't part of the topic
+      const topic = match[1].replace(/\s+(with|using|in) the .*$/i, "").replace(/\s+for (beginners|kids|teens).*$/i, "").trim();
+      if (topic) return topic;
+    }
+  }
+
+  const term = message.match(new RegExp(`\\b(${PROGRAMMING_TERMS.join("|")})\\b`, "i"));
+  return term ? term[1] : null;
+}
+
+function extractDifficulty(message: string): IntentResult["difficulty"] {
+  if (/\b(beginners?|basics?|simple|easy|intro(ductory)?)\b/i.test(message)) return "beginner";
+  if (/\b(intermediate|medium)\b/i.test(message)) return "intermediate";
+  if (/\b(advanced|expert|difficult|hard)\b/i.test(message)) return "advanced";
+  return null;
+}
+
+/** The style a message names, by name, id or (when `allowNumbers`) its position in the list */
+function matchStyle(message: string, options: LessonStyleOption[], allowNumbers: boolean): LessonStyleOption | null {
+  const lower = message.toLowerCase();
+  const named = options.find(option =>
+    lower.includes(option.name.toLowerCase()) ||
+    lower.includes(option.id.replace(/-/g, " ")) ||
+    lower.includes(option.id) ||
+    message.includes(option.emoji)
+  );
+  if (named) return named;
+
+  // Partial names, e.g. "neon" or "the interactive one"
+  const partial = options.find(option =>
+    option.name.toLowerCase().split(/\s+/).some(word => word.length > 4 && new RegExp(`\\b${word}`, "i").test(lower))
+  );
+  if (partial) return partial;
+
+  if (!allowNumbers) return null;
+  const number = lower.match(/\b([1-9])\b/);
+  const index = number ? parseInt(number[1]) - 1 : ORDINALS.findIndex(word => new RegExp(`\\b${word}\\b`).test(lower));
+  return index >= 0 && index < options.length ? options[index] : null;
+}
+
+function extractTargetSlide(message: string): number | null {
+  const numbered = message.match(/\bslide\s*(?:#|number\s*)?(\d+)\b/i);
+  if (numbered) return parseInt(numbered[1]);
+
+  const ordinal = message.match(new RegExp(`\\b(${ORDINALS.join("|")})\\s+slide\\b`, "i"));
+  return ordinal ? ORDINALS.indexOf(ordinal[1].toLowerCase()) + 1 : null;
+}
+
+/**
+ * Deterministic classifier used when the model is unavailable or unsure. It is
+ * deliberately strict: outlines are only amended and styles only chosen while
+ * a proposal is waiting, and slides are only edited inside a lesson.
+ */
+export function fallbackClassify(rawMessage: string, context: IntentContext = {}): IntentResult {
+  const message = stripPersona(rawMessage);
+  const base = { topic: null, difficulty: null, style: null, targetSlide: null, source: "fallback" as const };
+
+  const pending = context.pendingStyleChoice;
+  if (pending && AMEND_PATTERN.test(message)) {
+    return { ...base, intent: "amend_outline", topic: pending.topic, confidence: 0.8 };
+  }
+  if (pending) {
+    const wordCount = message.split(/\s+/).filter(Boolean).length;
+    const style = matchStyle(message, pending.options, wordCount <= MAX_CHOICE_WORDS || /\b(style|option)\b/i.test(message));
+    const leavesItToUs = /\b(you (decide|choose|pick)|surprise me|any( style)? is fine|doesn'?t matter)\b/i.test(message);
+    if (style || leavesItToUs) {
+      return {
+        ...base,
+        intent: "choose_style",
+        topic: pending.topic, // The proposal already settled what the lesson is about
+        difficulty: extractDifficulty(message),
+        style: style ? style.id : null,
+        confidence: style && wordCount <= MAX_CHOICE_WORDS ? 0.9 : 0.7,
+      };
+    }
+  }
+
+  if (context.lessonId && EDIT_PATTERN.test(message)) {
+    return { ...base, intent: "edit_slide", targetSlide: extractTargetSlide(message), confidence: 0.8 };
+  }
+
+  if (CREATE_PATTERNS.some(pattern => pattern.test(message))) {
+    const topic = extractTopic(message);
+    return {
+      ...base,
+      intent: "create_lesson",
+      topic,
+      difficulty: extractDifficulty(message),
+      confidence: topic ? 0.85 : 0.6,
+    };
+  }
+
+  return { ...base, intent: "chat", confidence: 0.5 };
+}
@@ -0,0 +1,14 @@
+/**
+ * Routing regressions: every labelled fixture must still be routed as expected
+ * by the rule-based classifier, which also decides whenever the model can't.
+ *
+ * Run with `npm test`.
+ */
+import { it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fallbackClassify } from './fallback';
+import { checkIntentFixtures } from './fixtures';
+
+it('routes every intent fixture as labelled', async () => {
+  assert.deepEqual(await checkIntentFixtures(fallbackClassify), []);
+});
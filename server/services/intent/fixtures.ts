@@ -0,0 +1,81 @@
+import type { LessonStyleOption } from "@shared/schema";
+import type { IntentContext, IntentResult } from "./types";
+
+/**
+ * A chat message labelled with how it should be routed. Only the fields in
+ * `expected` are checked, so an example can pin just the intent.
+ */
+export interface IntentFixture {
+  message: string;
+  context?: IntentContext;
+  expected: Partial<Pick<IntentResult, "intent" | "topic" | "difficulty" | "style" | "targetSlide">>;
+}
+
+const styles: LessonStyleOption[] = [
+  { id: "brown-markdown", name: "Brown Markdown", emoji: "🏖️", description: "" },
+  { id: "neon-racer", name: "Neon Racer", emoji: "🏎️", description: "" },
+  { id: "interaction-galore", name: "Interaction Galore", emoji: "💃🏽", description: "" },
+  { id: "project-building", name: "Practical Project Building", emoji: "🚀", description: "" },
+];
+
+const afterProposal: IntentContext = { pendingStyleChoice: { topic: "loops in Python", options: styles } };
+const inLesson: IntentContext = { lessonId: 1, slideCount: 6 };
+
+/**
+ * Labelled examples for regression-testing the chat router. The first few
+ * also serve as worked examples in the classifier prompt.
+ */
+export const intentFixtures: IntentFixture[] = [
+  { message: "Create a new lesson about loops in Python", expected: { intent: "create_lesson", topic: "loops in Python" } },
+  { message: "Use the Neon Racer 🏎️ style for the lesson about loops in Python", context: afterProposal, expected: { intent: "choose_style", style: "neon-racer", topic: "loops in Python" } },
+  { message: "Please rewrite slide 3 so it has more examples", context: inLesson, expected: { intent: "edit_slide", targetSlide: 3 } },
+  { message: "I have 2 questions about closures", expected: { intent: "chat" } },
+  { message: "What style of indentation does Python use?", expected: { intent: "chat" } },
+  { message: "[As Baloo the Lesson Creator 🐻] Make an advanced lesson on recursion", expected: { intent: "create_lesson", topic: "recursion", difficulty: "advanced" } },
+  { message: "Can you make a beginner tutorial about CSS flexbox?", expected: { intent: "create_lesson", topic: "CSS flexbox", difficulty: "beginner" } },
+  { message: "Teach me how to use arrays", expected: { intent: "create_lesson", topic: "how to use arrays" } },
+  { message: "Generate an intermediate lesson for JavaScript promises", expected: { intent: "create_lesson", topic: "JavaScript promises", difficulty: "intermediate" } },
+  { message: "Create a lesson", expected: { intent: "create_lesson", topic: null } },
+  { message: "Drop slide 5, add one on closures", context: afterProposal, expected: { intent: "amend_outline" } },
+  { message: "remove slide 2", context: afterProposal, expected: { intent: "amend_outline" } },
+  { message: "Can you add a quiz about while loops?", context: afterProposal, expected: { intent: "amend_outline" } },
+  { message: "2", context: afterProposal, expected: { intent: "choose_style", style: "neon-racer" } },
+  { message: "option 3 please", context: afterProposal, expected: { intent: "choose_style", style: "interaction-galore" } },
+  { message: "the first one", context: afterProposal, expected: { intent: "choose_style", style: "brown-markdown" } },
+  { message: "You decide the best style for the lesson about loops in Python", context: afterProposal, expected: { intent: "choose_style", style: null } },
+  { message: "Practical project sounds fun", context: afterProposal, expected: { intent: "choose_style", style: "project-building" } },
+  { message: "Why do I get 4 errors when I run this loop?", context: afterProposal, expected: { intent: "chat" } },
+  { message: "2", expected: { intent: "chat" } },
+  { message: "Use the Neon Racer style", expected: { intent: "chat" } },
+  { message: "Fix the second slide, the example is wrong", context: inLesson, expected: { intent: "edit_slide", targetSlide: 2 } },
+  { message: "Improve this slide with an interactive demo", context: inLesson, expected: { intent: "edit_slide", targetSlide: null } },
+  { message: "Update slide 4", expected: { intent: "chat" } },
+  { message: "Give me a hint for this challenge", context: inLesson, expected: { intent: "chat" } },
+  { message: "Help me understand this code: for (let i = 0; i < 3; i++) {}", context: inLesson, expected: { intent: "chat" } },
+  { message: "What's a real-world example of this concept?", context: inLesson, expected: { intent: "chat" } },
+  { message: "hello!", expected: { intent: "chat" } },
+];
+
+/**
+ * Run `classify` over the fixtures and describe every field that didn't match
+ * what the fixture expects. An empty list means routing is unchanged.
+ */
+export async function checkIntentFixtures(
+  classify: (message: string, context?: IntentContext) => IntentResult | Promise<IntentResult>,
+  fixtures: IntentFixture[] = intentFixtures
+): Promise<string[]> {
+  const failures: string[] = [];
+  for (const fixture of fixtures) {
+    const result = await classify(fixture.message, fixture.context);
+    for (const [field, expected] of Object.entries(fixture.expected)) {
+      const actual = result[field as keyof IntentResult];
+      const matches = typeof expected === "string" && typeof actual === "string"
+        ? expected.toLowerCase() === actual.toLowerCase()
+        : expected === actual;
+      if (!matches) {
+        failures.push(`"${fixture.message}": expected ${field} ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+      }
+    }
+  }
+  return failures;
+}
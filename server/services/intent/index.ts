@@ -0,0 +1,89 @@
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { llm } from "../llm";
+import { fallbackClassify } from "./fallback";
+import { intentFixtures } from "./fixtures";
+import { intentResultSchema, type IntentContext, type IntentResult } from "./types";
+
+export * from "./types";
+export { fallbackClassify, stripPersona } from "./fallback";
+export { intentFixtures, checkIntentFixtures, type IntentFixture } from "./fixtures";
+
+// Below this the model is guessing, and the rule-based answer is used instead
+export const MIN_INTENT_CONFIDENCE = parseFloat(process.env.MIN_INTENT_CONFIDENCE || "0.6");
+
+// How many labelled fixtures are shown to the model as examples
+const PROMPT_EXAMPLES = 6;
+
+function describeContext(context: IntentContext): string {
+  const lines = [
+    context.lessonId
+      ? `The user is viewing a lesson${context.slideCount ? ` with ${context.slideCount} slides` : ""}.`
+      : "The user is not viewing a lesson, so there are no slides to edit.",
+  ];
+  if (context.pendingStyleChoice) {
+    const { topic, outline, options } = context.pendingStyleChoice;
+    const styles = options.map((option, i) => `${i + 1}. ${option.name} (id: ${option.id})`).join("\n");
+    const slides = outline ? `\nIts proposed slides are:\n${outline.map((slide, i) => `${i + 1}. ${slide.title}`).join("\n")}` : "";
+    lines.push(`A lesson about "${topic}" has been proposed and the user was asked to pick one of these styles:\n${styles}${slides}`);
+  } else {
+    lines.push("No lesson proposal is waiting for an answer.");
+  }
+  return lines.join("\n");
+}
+
+const systemPrompt = `You route messages sent to a coding tutor chat. Classify the user's message and reply with a JSON object:
+{
+  "intent": "create_lesson" | "amend_outline" | "choose_style" | "edit_slide" | "chat",
+  "topic": string or null, // what a new lesson should teach, as the user put it
+  "difficulty": "beginner" | "intermediate" | "advanced" | null, // only when the user says so
+  "style": string or null, // id of the chosen style, null if the user leaves it to us
+  "targetSlide": number or null, // 1-based slide the user wants changed, null for the current slide
+  "confidence": number // 0 to 1
+}
+
+- create_lesson: the user asks for a new lesson, tutorial or course to be made.
+- amend_outline: the user asks to add, remove or change slides of the proposed lesson. Only possible while a proposal is waiting.
+- choose_style: the user picks a style for the proposed lesson. Only possible while a proposal is waiting.
+- edit_slide: the user asks for a slide of the lesson they are viewing to be changed. Only possible while viewing a lesson.
+- chat: questions, help with code, explanations and anything else. Numbers or the word "style" alone don't make a message one of the other intents.
+
+Examples:
+${intentFixtures.slice(0, PROMPT_EXAMPLES).map(fixture => `"${fixture.message}" -> ${JSON.stringify(fixture.expected)}`).join("\n")}`;
+
+/**
+ * Work out what a chat message asks for. The model classifies it in JSON mode;
+ * when it can't be reached, replies with something invalid or isn't confident,
+ * the deterministic fallback decides instead.
+ */
+export async function classifyIntent(message: string, context: IntentContext = {}): Promise<IntentResult> {
+  try {
+    const content = await llm.json([
+      { role: "system", content: `${systemPrompt}\n\n${describeContext(context)}` },
+      { role: "user", content: message },
+    ]);
+    const parsed = intentResultSchema.parse(JSON.parse(content || "{}"));
+    const result: IntentResult = { ...parsed, source: "llm" };
+
+    // Intents the conversation can't support right now are the model misreading it
+    if (result.intent === "edit_slide" && !context.lessonId) throw new Error("edit_slide outside a lesson");
+    if ((result.intent === "choose_style" || result.intent === "amend_outline") && !context.pendingStyleChoice) {
+      throw new Error(`${result.intent} with no proposal waiting`);
+    }
+    if (result.intent === "choose_style" && result.style && !context.pendingStyleChoice!.options.some(option => option.id === result.style)) {
+      throw new Error(`Unknown style "${result.style}"`);
+    }
+    if (result.confidence < MIN_INTENT_CONFIDENCE) {
+      throw new Error(`Low confidence (${result.confidence})`);
+    }
+
+    if ((result.intent === "choose_style" || result.intent === "amend_outline") && !result.topic) {
+      result.topic = context.pendingStyleChoice!.topic;
+    }
+    return result;
+  } catch (error: any) {
+    const reason = error instanceof ZodError ? fromZodError(error).message : error.message;
+    console.warn(`[Intent] Using the fallback classifier: ${reason}`);
+    return fallbackClassify(message, context);
+  }
+}
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import type { LessonOutlineSlide, LessonStyleOption } from "@shared/schema";
+
+/**
+ * What a chat message asks for, which decides how the chat router answers it:
+ * - create_lesson: propose a new lesson (topic and difficulty when given)
+ * - amend_outline: change the slides of the lesson just proposed, before it is generated
+ * - choose_style: pick a style for the lesson just proposed, starting generation
+ * - edit_slide: change a slide of the current lesson (targetSlide is 1-based, null for the current one)
+ * - chat: anything else, answered by the tutor
+ */
+export const CHAT_INTENTS = ["create_lesson", "amend_outline", "choose_style", "edit_slide", "chat"] as const;
+export type ChatIntent = typeof CHAT_INTENTS[number];
+
+export const DIFFICULTIES = ["beginner", "intermediate", "advanced"] as const;
+
+export const intentResultSchema = z.object({
+  intent: z.enum(CHAT_INTENTS),
+  topic: z.string().trim().min(1).nullable().default(null),
+  difficulty: z.enum(DIFFICULTIES).nullable().default(null),
+  style: z.string().nullable().default(null), // Id of a LessonStyleOption, null when the user leaves it to us
+  targetSlide: z.number().int().positive().nullable().default(null),
+  confidence: z.number().min(0).max(1),
+});
+
+export type IntentResult = z.infer<typeof intentResultSchema> & {
+  source: "llm" | "fallback";
+};
+
+/** What the router knows about the conversation when a message arrives */
+export interface IntentContext {
+  lessonId?: number; // Set when the chat belongs to a lesson, so slides can be edited
+  slideCount?: number;
+  // A proposed lesson still waiting for its style to be chosen
+  pendingStyleChoice?: { topic: string; difficulty?: string; outline?: LessonOutlineSlide[]; options: LessonStyleOption[] };
+}
@@ -0,0 +1,129 @@
+/**
+ * Lesson bundles: a lesson and its slides as one versioned JSON document, for
+ * moving lessons between installs or keeping them in git.
+ *
+ * Every bundle records the version it was written with. Older bundles are
+ * upgraded one version at a time by BUNDLE_MIGRATIONS before validation;
+ * bundles newer than this install are refused rather than half-imported.
+ * Fields a version doesn't know about are dropped on import.
+ */
+import { z } from 'zod';
+import { insertLessonSchema, insertSlideSchema, type Lesson, type Slide } from '@shared/schema';
+import { storage } from '../storage';
+
+export const LESSON_BUNDLE_FORMAT = 'codelesson-bundle';
+export const LESSON_BUNDLE_VERSION = 1;
+
+// Upgrades a bundle written with version n (the key) to version n + 1
+const BUNDLE_MIGRATIONS: Record<number, (bundle: Record<string, any>) => Record<string, any>> = {};
+
+const testSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  validation: z.string(),
+  type: z.enum(['regex', 'js', 'dom', 'unit']),
+  file: z.string().optional(),
+});
+
+// Bundled slides belong to no lesson yet, and their order is their position in the bundle
+const bundleSlideSchema = insertSlideSchema.omit({ lessonId: true, order: true }).extend({
+  type: z.enum(['info', 'challenge', 'quiz']).default('info'),
+  tags: z.array(z.string()).default([]),
+  files: z.array(z.object({ name: z.string(), content: z.string() })).default([]),
+  tests: z.array(testSchema).default([]),
+});
+
+export const lessonBundleSchema = z.object({
+  format: z.literal(LESSON_BUNDLE_FORMAT),
+  version: z.literal(LESSON_BUNDLE_VERSION),
+  exportedAt: z.string().optional(),
+  lesson: insertLessonSchema.omit({ userId: true }),
+  slides: z.array(bundleSlideSchema).max(200),
+});
+
+export type LessonBundle = z.infer<typeof lessonBundleSchema>;
+
+/**
+ * The bundle can't be imported; the message says why in terms the user can act on
+ */
+export class LessonBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LessonBundleError';
+  }
+}
+
+/**
+ * Bundle a lesson and its slides, in slide order
+ */
+export function exportLessonBundle(lesson: Lesson, slides: Slide[]): LessonBundle {
+  return {
+    format: LESSON_BUNDLE_FORMAT,
+    version: LESSON_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    lesson: {
+      title: lesson.title,
+      description: lesson.description,
+      difficulty: lesson.difficulty,
+      language: lesson.language,
+      format: lesson.format,
+      estimatedTime: lesson.estimatedTime,
+      styleName: lesson.styleName,
+      cssContent: lesson.cssContent,
+      jsContent: lesson.jsContent,
+    },
+    slides: [...slides]
+      .sort((a, b) => a.order - b.order)
+      .map(slide => ({
+        title: slide.title,
+        content: slide.content,
+        type: slide.type as LessonBundle['slides'][number]['type'],
+        tags: slide.tags ?? [],
+        initialCode: slide.initialCode,
+        filename: slide.filename,
+        cssContent: slide.cssContent,
+        jsContent: slide.jsContent,
+        files: slide.files ?? [],
+        tests: slide.tests ?? [],
+      })),
+  };
+}
+
+/**
+ * Check `data` is a bundle this install can read, upgrading older versions.
+ * Throws a LessonBundleError for bundles from newer installs, and a ZodError
+ * when the content doesn't validate.
+ */
+export function parseLessonBundle(data: unknown): LessonBundle {
+  const header = z.object({ format: z.literal(LESSON_BUNDLE_FORMAT), version: z.number().int().positive() }).safeParse(data);
+  if (!header.success) {
+    throw new LessonBundleError('This file is not a lesson bundle');
+  }
+  if (header.data.version > LESSON_BUNDLE_VERSION) {
+    throw new LessonBundleError(
+      `This bundle was written by a newer version (bundle version ${header.data.version}, this install reads up to ${LESSON_BUNDLE_VERSION})`
+    );
+  }
+
+  let bundle = data as Record<string, any>;
+  for (let version = header.data.version; version < LESSON_BUNDLE_VERSION; version++) {
+    const migrate = BUNDLE_MIGRATIONS[version];
+    if (!migrate) {
+      throw new LessonBundleError(`Bundle version ${version} is no longer supported`);
+    }
+    bundle = { ...migrate(bundle), version: version + 1 };
+  }
+  return lessonBundleSchema.parse(bundle);
+}
+
+/**
+ * Recreate a bundled lesson for `userId`, with new IDs for the lesson and its slides
+ */
+export async function importLessonBundle(bundle: LessonBundle, userId: number): Promise<Lesson> {
+  const lesson = await storage.createLesson({ ...bundle.lesson, userId });
+  for (let order = 0; order < bundle.slides.length; order++) {
+    await storage.createSlide({ ...bundle.slides[order], lessonId: lesson.id, order });
+  }
+  return lesson;
+}
@@ -0,0 +1,197 @@
+/**
+ * Background queue for lesson generation. Generating a lesson takes a model
+ * call per lesson plus one per slide that needs fixing, so chat replies hand
+ * back a job id straight away and report progress as the job runs.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import type { LessonOutlineSlide } from '@shared/schema';
+import { storage } from '../storage';
+import { restackOpenAIService } from './restack/openaiService';
+
+export type LessonJobStatus = 'queued' | 'running' | 'failed' | 'done';
+
+export interface LessonJobParams {
+  topic: string;
+  difficulty: string;
+  format: string;
+  style?: string;
+  outline?: LessonOutlineSlide[]; // Slides agreed in the chat's proposal
+}
+
+export interface LessonJobProgress {
+  message: string;
+  completedSlides: number;
+  totalSlides: number; // 0 until the model has planned the slides
+}
+
+export interface LessonJob {
+  id: string;
+  status: LessonJobStatus;
+  userId: number;
+  chatId?: number;
+  params: LessonJobParams;
+  progress: LessonJobProgress;
+  lessonId?: number; // Set once the job is done
+  lessonTitle?: string;
+  error?: string; // Set when the job failed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type LessonJobListener = (job: LessonJob) => void;
+
+// How many lessons are generated at once; the rest wait their turn
+export const LESSON_JOB_CONCURRENCY = parseInt(process.env.LESSON_JOB_CONCURRENCY || "1");
+
+// Finished jobs are kept this long so clients can still look up the result
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+export class LessonJobQueue {
+  private jobs = new Map<string, LessonJob>();
+  private waiting: string[] = [];
+  private running = 0;
+  private listeners = new Set<LessonJobListener>();
+
+  constructor(private concurrency: number = LESSON_JOB_CONCURRENCY) {}
+
+  /**
+   * Queue a lesson for generation, owned by `userId`
+   */
+  enqueue(userId: number, params: LessonJobParams, chatId?: number): LessonJob {
+    const now = new Date();
+    const job: LessonJob = {
+      id: uuidv4(),
+      status: 'queued',
+      userId,
+      chatId,
+      params,
+      progress: { message: 'Waiting to start', completedSlides: 0, totalSlides: 0 },
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.set(job.id, job);
+    this.waiting.push(job.id);
+    this.notify(job);
+    // Started on the next tick, so the caller can record the job id before it runs
+    setImmediate(() => this.startNext());
+    return job;
+  }
+
+  getJob(id: string): LessonJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Be told every time a job changes. Returns a function that stops listening.
+   */
+  subscribe(listener: LessonJobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private startNext() {
+    while (this.running < this.concurrency && this.waiting.length > 0) {
+      const job = this.jobs.get(this.waiting.shift()!);
+      if (!job) continue;
+
+      this.running++;
+      this.run(job).finally(() => {
+        this.running--;
+        this.startNext();
+      });
+    }
+  }
+
+  private async run(job: LessonJob) {
+    this.update(job, {
+      status: 'running',
+      progress: { message: 'Writing the lesson', completedSlides: 0, totalSlides: 0 },
+    });
+
+    try {
+      const { topic, difficulty, format, style, outline } = job.params;
+      const lesson = await restackOpenAIService.generateLesson(topic, difficulty, format, {
+        style,
+        userId: job.userId,
+        outline,
+        onProgress: (progress) => this.update(job, { progress }),
+      });
+
+      this.update(job, {
+        status: 'done',
+        lessonId: lesson.id,
+        lessonTitle: lesson.title,
+        progress: { ...job.progress, message: 'Lesson ready', completedSlides: job.progress.totalSlides },
+      });
+    } catch (error: any) {
+      console.error(`[Lesson Jobs] Job ${job.id} failed:`, error);
+      this.update(job, {
+        status: 'failed',
+        error: error.message,
+        progress: { ...job.progress, message: 'Lesson generation failed' },
+      });
+    }
+
+    await this.recordOutcome(job);
+
+    setTimeout(() => this.jobs.delete(job.id), FINISHED_JOB_TTL_MS).unref();
+  }
+
+  /**
+   * Leave the result in the chat that asked for the lesson, so it is still
+   * there after the job itself has been forgotten
+   */
+  private async recordOutcome(job: LessonJob) {
+    if (job.chatId == null) return;
+
+    try {
+      // Move the chat's proposal on, unless it has since been replaced by a newer one
+      const chat = await storage.getChat(job.chatId);
+      const proposal = chat?.lessonProposal?.jobId === job.id ? chat.lessonProposal : undefined;
+
+      if (job.status === 'done' && job.lessonId != null) {
+        if (proposal) {
+          await storage.updateChat(job.chatId, { lessonProposal: { ...proposal, stage: 'created', lessonId: job.lessonId } });
+        }
+        await storage.createMessage({
+          chatId: job.chatId,
+          role: 'assistant',
+          content: `Your lesson "${job.lessonTitle}" is ready!`,
+          actions: [{ kind: 'lesson_created', lessonId: job.lessonId, title: job.lessonTitle || job.params.topic }],
+        });
+      } else if (job.status === 'failed') {
+        // Back to the proposal, so picking a style again retries with the same outline
+        if (proposal) {
+          await storage.updateChat(job.chatId, { lessonProposal: { ...proposal, stage: 'proposed', style: undefined, jobId: undefined } });
+        }
+        await storage.createMessage({
+          chatId: job.chatId,
+          role: 'assistant',
+          content: `I'm sorry, I couldn't create a lesson about ${job.params.topic}. Error: ${job.error}${proposal ? '\n\nPick a style again to retry.' : ''}`,
+        });
+      }
+    } catch (error) {
+      console.error(`[Lesson Jobs] Couldn't record the outcome of job ${job.id}:`, error);
+    }
+  }
+
+  private update(job: LessonJob, changes: Partial<LessonJob>) {
+    Object.assign(job, changes, { updatedAt: new Date() });
+    this.notify(job);
+  }
+
+  private notify(job: LessonJob) {
+    this.listeners.forEach(listener => {
+      try {
+        listener({ ...job });
+      } catch (error) {
+        console.error('[Lesson Jobs] Listener failed:', error);
+      }
+    });
+  }
+}
+
+export const lessonJobs = new LessonJobQueue();
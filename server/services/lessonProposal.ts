@@ -0,0 +1,168 @@
+/**
+ * Lesson proposals: the outline offered in chat before a lesson is generated,
+ * which the user can amend and then pick a style for.
+ */
+import { z, ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import type { LessonOutlineSlide, LessonProposal, LessonStyleOption } from "@shared/schema";
+import { llm } from "./llm";
+import { stripPersona } from "./intent";
+
+// Styles offered when proposing a lesson, in the order they are listed
+export const LESSON_STYLES: LessonStyleOption[] = [
+  { id: 'brown-markdown', name: 'Brown Markdown', emoji: '🏖️', description: 'A relaxed, earthy style with tan/beige/brown colors' },
+  { id: 'neon-racer', name: 'Neon Racer', emoji: '🏎️', description: 'A vibrant, high-energy style with neon colors and animations' },
+  { id: 'interaction-galore', name: 'Interaction Galore', emoji: '💃🏽', description: 'A style focused on interactive elements with plenty of clickable components' },
+  { id: 'project-building', name: 'Practical Project Building', emoji: '🚀', description: 'A style focused on progressive learning with each slide building on the previous' },
+];
+
+// Longest outline a proposal may grow to
+export const MAX_OUTLINE_SLIDES = 15;
+
+const ORDINALS = ["first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth"];
+
+const outlineSchema = z.object({
+  outline: z.array(z.object({
+    title: z.string().trim().min(1),
+    type: z.enum(["info", "challenge", "quiz"]).catch("info"),
+  })).min(1).max(MAX_OUTLINE_SLIDES),
+});
+
+/**
+ * Start a proposal for a lesson about `topic` with the usual six-slide outline
+ */
+export function createProposal(topic: string, difficulty: string): LessonProposal {
+  return {
+    stage: 'proposed',
+    topic,
+    difficulty,
+    outline: [
+      { title: `Introduction to ${topic}`, type: 'info' },
+      { title: 'Core Concepts Explained', type: 'info' },
+      { title: 'Example Code & Demonstration', type: 'info' },
+      { title: 'Interactive Challenge', type: 'challenge' },
+      { title: 'Common Patterns & Use Cases', type: 'info' },
+      { title: 'Quiz: Test Your Knowledge', type: 'quiz' },
+    ],
+  };
+}
+
+/**
+ * The proposal as a chat reply. The style options are attached to the message
+ * separately, as a choose_style action.
+ */
+export function formatProposal(proposal: LessonProposal, amended: boolean = false): string {
+  const { topic, difficulty, outline } = proposal;
+  const level = difficulty.charAt(0).toUpperCase() + difficulty.slice(1);
+  const intro = amended
+    ? `Here's the updated plan for your lesson about **${topic}**:`
+    : `I'd be happy to create a lesson about **${topic}** for you! Here's what I'm thinking:`;
+
+  return `
+# 🐯 Lesson Proposal: Learning ${topic} - ${level} Level
+
+${intro}
+
+## 📚 Lesson Details:
+- **Topic:** ${topic}
+- **Difficulty:** ${difficulty}
+- **Format:** HTML with interactive elements
+- **Estimated Time:** ${outline.length * 5}-${outline.length * 8} minutes
+
+## 📝 Proposed Slides:
+${outline.map((slide, i) => `${i + 1}. ${slide.title}${slide.type === 'info' ? '' : ` (${slide.type})`}`).join('\n')}
+
+You can ask me to change the slides (e.g. "drop slide 5, add one on closures"), or pick a visual style for your lesson and I'll get started!
+`;
+}
+
+function slideType(description: string): LessonOutlineSlide["type"] {
+  if (/\b(quiz|test yourself|questions)\b/i.test(description)) return "quiz";
+  if (/\b(challenge|exercise|practice|project)\b/i.test(description)) return "challenge";
+  return "info";
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/** 0-based position of the slide a phrase like "slide 5", "the third slide" or "the last one" refers to */
+function slideIndex(phrase: string, length: number): number | null {
+  const numbered = phrase.match(/\b(?:slide\s*)?#?(\d+)\b/i);
+  if (numbered) return parseInt(numbered[1]) - 1;
+  const ordinal = phrase.match(new RegExp(`\\b(${ORDINALS.join("|")})\\b`, "i"));
+  if (ordinal) return ORDINALS.indexOf(ordinal[1].toLowerCase());
+  if (/\blast\b/i.test(phrase)) return length - 1;
+  return null;
+}
+
+/**
+ * Deterministic outline edits for when the model is unavailable: removing,
+ * renaming and adding slides. Returns null when the request isn't understood.
+ */
+export function fallbackAmendOutline(outline: LessonOutlineSlide[], request: string): LessonOutlineSlide[] | null {
+  const removed = new Set<number>();
+  const renamed = new Map<number, string>();
+  const added: LessonOutlineSlide[] = [];
+
+  for (const clause of stripPersona(request).split(/,|;|\band then\b|\bthen\b|\band\b(?=\s+(?:drop|remove|delete|skip|cut|add|insert|include|rename|call)\b)/i)) {
+    const text = clause.trim();
+    if (!text) continue;
+
+    const rename = text.match(/\b(?:rename|retitle|call)\s+(.+?)\s+(?:to|as)\s+["']?(.+?)["']?$/i);
+    if (rename) {
+      const index = slideIndex(rename[1], outline.length);
+      if (index !== null && index >= 0 && index < outline.length) renamed.set(index, capitalize(rename[2]));
+      continue;
+    }
+
+    const removal = text.match(/\b(?:drop|remove|delete|skip|cut)\s+(.+)$/i);
+    if (removal) {
+      const index = slideIndex(removal[1], outline.length);
+      if (index !== null && index >= 0 && index < outline.length) removed.add(index);
+      continue;
+    }
+
+    const addition = text.match(/\b(?:add|insert|include)\s+(?:a|an|one|another)?\s*(?:(?:new|extra)\s+)?(?:slide|one|section)?\s*(?:on|about|covering|for)?\s+(.+)$/i);
+    if (addition) {
+      const subject = addition[1].replace(/^(?:a|an)\s+/i, "").trim();
+      if (subject) added.push({ title: capitalize(subject), type: slideType(text) });
+    }
+  }
+
+  if (removed.size === 0 && renamed.size === 0 && added.length === 0) return null;
+
+  const kept = outline
+    .map((slide, i) => renamed.has(i) ? { ...slide, title: renamed.get(i)! } : slide)
+    .filter((_, i) => !removed.has(i));
+
+  // New slides go before a closing quiz, so the quiz stays last
+  const insertAt = kept.length > 0 && kept[kept.length - 1].type === "quiz" ? kept.length - 1 : kept.length;
+  const amended = [...kept.slice(0, insertAt), ...added, ...kept.slice(insertAt)];
+  return amended.length > 0 ? amended.slice(0, MAX_OUTLINE_SLIDES) : null;
+}
+
+/**
+ * Apply a request like "drop slide 5, add one on closures" to an outline. The
+ * model rewrites the outline in JSON mode; the rule-based edits are used when
+ * it can't. Returns null when the request couldn't be applied.
+ */
+export async function amendOutline(proposal: LessonProposal, request: string): Promise<LessonOutlineSlide[] | null> {
+  try {
+    const content = await llm.json([
+      {
+        role: "system",
+        content: `You plan slides for a ${proposal.difficulty} coding lesson about ${proposal.topic}. The current outline is:
+${JSON.stringify({ outline: proposal.outline }, null, 2)}
+
+Apply the user's requested changes and reply with the whole updated outline as a JSON object of the same shape. Slide numbers in the request refer to the current outline, counting from 1. Each slide's type is "info", "challenge" or "quiz". Keep slides the user didn't mention unchanged and in order, and keep at most ${MAX_OUTLINE_SLIDES} slides.`,
+      },
+      { role: "user", content: request },
+    ]);
+    return outlineSchema.parse(JSON.parse(content || "{}")).outline;
+  } catch (error: any) {
+    const reason = error instanceof ZodError ? fromZodError(error).message : error.message;
+    console.warn(`[Lesson Proposal] Using rule-based outline edits: ${reason}`);
+    return fallbackAmendOutline(proposal.outline, request);
+  }
+}
@@ -0,0 +1,580 @@
+/**
+ * Offline lesson export: one self-contained HTML file with slide navigation,
+ * the lesson's style CSS/JS, working quizzes and an editor that runs challenge
+ * code and its tests in the browser, so a lesson can be used without a server.
+ *
+ * Each slide is rendered into its own sandboxed iframe, as the lesson viewer
+ * renders it, so slide scripts and element ids don't collide between slides.
+ */
+import type { Lesson, Slide } from '@shared/schema';
+import { SLIDE_HELPER_SCRIPT } from '@shared/slideHelpers';
+import { UNIT_TEST_RUNTIME } from '@shared/unitTests';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Inline content must not close the tag it is placed in
+const escapeScript = (content: string) => content.replace(/<\/script/gi, '<\\/script');
+const escapeStyle = (content: string) => content.replace(/<\/style/gi, '<\\/style');
+
+const inlineCode = (text: string) =>
+  text.split('`').map((part, i) => i % 2 === 0 ? escapeHtml(part) : `<code>${escapeHtml(part)}</code>`).join('');
+
+/**
+ * Render markdown-format slide content with the conventions the lesson viewer
+ * understands: fenced code, `> ` info boxes, HINT:/WARNING:/TIP: paragraphs and `## ` headers
+ */
+export function renderMarkdownSlide(content: string): string {
+  return content.split('\n\n').map(paragraph => {
+    if (paragraph.startsWith('```') && paragraph.endsWith('```')) {
+      let code = paragraph.slice(3, -3);
+      let language = '';
+      const firstLineEnd = code.indexOf('\n');
+      if (firstLineEnd > 0 && /^[a-zA-Z]+$/.test(code.substring(0, firstLineEnd).trim())) {
+        language = code.substring(0, firstLineEnd).trim();
+        code = code.substring(firstLineEnd + 1);
+      }
+      return `<pre class="code"><span class="code-language">${escapeHtml(language || 'code')}</span><code>${escapeHtml(code)}</code></pre>`;
+    }
+    if (paragraph.startsWith('> ')) {
+      return `<div class="box info">${inlineCode(paragraph.slice(2))}</div>`;
+    }
+    if (paragraph.startsWith('HINT: ')) {
+      return `<details class="box hint"><summary>Hint</summary><p>${inlineCode(paragraph.slice(6))}</p></details>`;
+    }
+    if (paragraph.startsWith('WARNING: ')) {
+      return `<div class="box warning">${inlineCode(paragraph.slice(9))}</div>`;
+    }
+    if (paragraph.startsWith('TIP: ')) {
+      return `<div class="box tip">${inlineCode(paragraph.slice(5))}</div>`;
+    }
+    if (paragraph.startsWith('## ')) {
+      return `<h2>${inlineCode(paragraph.slice(3))}</h2>`;
+    }
+    return `<p>${inlineCode(paragraph)}</p>`;
+  }).join('\n');
+}
+
+const MARKDOWN_CSS = `
+body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #374151; line-height: 1.6; margin: 0; padding: 16px 20px; }
+h2 { font-size: 1.25rem; color: #1f2937; border-bottom: 1px solid #e5e7eb; padding-bottom: 6px; }
+code { font-family: ui-monospace, Menlo, monospace; background: #f3f4f6; border: 1px solid #e5e7eb; border-radius: 4px; padding: 1px 5px; font-size: 0.9em; }
+pre.code { position: relative; background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 6px; padding: 12px; overflow-x: auto; }
+pre.code code { background: none; border: 0; padding: 0; }
+.code-language { position: absolute; top: 0; right: 0; background: #e5e7eb; font-size: 0.75rem; padding: 2px 8px; border-bottom-left-radius: 6px; }
+.box { border-left: 4px solid; border-radius: 0 6px 6px 0; padding: 12px 16px; margin: 0 0 16px; }
+.box.info { background: #eff6ff; border-color: #3b82f6; color: #1e40af; }
+.box.hint { background: #fefce8; border-color: #eab308; color: #854d0e; cursor: pointer; }
+.box.hint summary { font-weight: 600; }
+.box.warning { background: #fef2f2; border-color: #ef4444; color: #b91c1c; }
+.box.tip { background: #f0fdf4; border-color: #22c55e; color: #15803d; }
+`;
+
+// Quiz "Next Question" buttons move on to the next slide of the exported lesson
+const OFFLINE_SLIDE_SCRIPT = `window.nextQuestion = function() { parent.postMessage({ type: 'nextSlide' }, '*'); };`;
+
+/**
+ * The document shown in a slide's iframe, assembled in the same order as the
+ * lesson viewer: lesson CSS, slide CSS, content, helpers, lesson JS, slide JS
+ */
+function slideDocument(lesson: Lesson, slide: Slide): string {
+  if (lesson.format !== 'html') {
+    return `<!DOCTYPE html>
+<html><head><meta charset="UTF-8" /><style>${MARKDOWN_CSS}</style></head>
+<body>${renderMarkdownSlide(slide.content)}</body></html>`;
+  }
+
+  const styleClass = lesson.styleName ? ` lesson-style-${escapeHtml(lesson.styleName)}` : '';
+  return `<!DOCTYPE html>
+<html><head><meta charset="UTF-8" />
+<style>body { margin: 0; padding: 16px 20px; font-family: system-ui, -apple-system, "Segoe UI", sans-serif; }</style>
+${lesson.cssContent ? `<style>${escapeStyle(lesson.cssContent)}</style>` : ''}
+${slide.cssContent ? `<style>${escapeStyle(slide.cssContent)}</style>` : ''}
+</head><body>
+<div class="html-content${styleClass}">${slide.content}</div>
+<script>${escapeScript(SLIDE_HELPER_SCRIPT)}</script>
+<script>${OFFLINE_SLIDE_SCRIPT}</script>
+${lesson.jsContent ? `<script>${escapeScript(lesson.jsContent)}</script>` : ''}
+${slide.jsContent ? `<script>${escapeScript(slide.jsContent)}</script>` : ''}
+</body></html>`;
+}
+
+/**
+ * What a challenge slide's editor starts with: its workspace files, or its
+ * starting code as a single file
+ */
+function challengeOf(lesson: Lesson, slide: Slide) {
+  const extension = slide.filename?.split('.').pop()?.toLowerCase();
+  const python = extension === 'py' || (extension !== 'js' && extension !== 'mjs' && lesson.language?.toLowerCase() === 'python');
+  const workspace = (slide.files ?? []).length > 0;
+  const code = slide.initialCode ?? '';
+  return {
+    runtime: python ? 'python' : 'javascript',
+    workspace,
+    files: workspace ? slide.files! : [{ name: slide.filename || (/^\s*</.test(code) ? 'index.html' : 'script.js'), content: code }],
+    tests: slide.tests ?? [],
+  };
+}
+
+/**
+ * Script injected ahead of challenge code in the runner iframe: forwards console
+ * output and runs `dom` and `unit` tests when the page asks
+ */
+const RUNNER_HARNESS = String.raw`<script>
+(function () {
+  var send = function (message) { parent.postMessage(message, '*'); };
+  var format = function (arg) {
+    if (typeof arg === 'object' && arg !== null) {
+      try { return JSON.stringify(arg, null, 2); } catch (e) { return String(arg); }
+    }
+    return String(arg);
+  };
+  ['log', 'info', 'warn', 'error', 'table'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      send({ type: 'console', level: level, message: Array.prototype.slice.call(arguments).map(format).join(' ') });
+      if (original) original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (event) {
+    send({ type: 'console', level: 'error', message: event.message });
+  });
+  window.addEventListener('load', function () {
+    setTimeout(function () { send({ type: 'loaded' }); }, 0);
+  });
+
+  var $ = function (selector) { return document.querySelector(selector); };
+  var $$ = function (selector) { return Array.prototype.slice.call(document.querySelectorAll(selector)); };
+  var find = function (selector) {
+    var element = $(selector);
+    if (!element) throw new Error('No element matches ' + selector);
+    return element;
+  };
+  var click = function (selector) { find(selector).click(); };
+  var type = function (selector, text) {
+    var element = find(selector);
+    element.value = text;
+    element.dispatchEvent(new Event('input', { bubbles: true }));
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+  };
+  var AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+  var unitRuntime = __UNIT_TEST_RUNTIME__;
+
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== parent || !data || data.type !== 'runTests') return;
+
+    var results = [];
+    data.tests.reduce(function (previous, test) {
+      return previous.then(function () {
+        if (test.type === 'unit') {
+          var outcome = unitRuntime(test.code, test.validation);
+          return { passed: outcome.passed, message: outcome.message };
+        }
+        var validate = new AsyncFunction(
+          'document', 'window', '$', '$$', 'click', 'type', 'code', 'consoleOutput', 'files',
+          test.validation
+        );
+        return validate(document, window, $, $$, click, type, test.code, data.consoleOutput, data.files).then(function (passed) {
+          return { passed: !!passed };
+        });
+      }).then(function (outcome) {
+        results.push({ id: test.id, passed: outcome.passed, message: outcome.message || (outcome.passed ? 'Test passed!' : 'Test failed') });
+      }, function (e) {
+        results.push({ id: test.id, passed: false, message: 'Error running test: ' + (e && e.message ? e.message : String(e)) });
+      });
+    }, Promise.resolve()).then(function () {
+      send({ type: 'testResults', results: results });
+    });
+  });
+})();
+</script>
+`.replace('__UNIT_TEST_RUNTIME__', () => UNIT_TEST_RUNTIME);
+
+const SITE_CSS = `
+* { box-sizing: border-box; }
+html, body { height: 100%; margin: 0; }
+body { display: flex; flex-direction: column; font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2937; background: #f9fafb; }
+header { display: flex; align-items: center; justify-content: space-between; padding: 12px 20px; background: #fff; border-bottom: 1px solid #e5e7eb; }
+header h1 { font-size: 1.1rem; margin: 0; }
+header .counter { font-size: 0.85rem; color: #6b7280; }
+main { flex: 1; display: flex; min-height: 0; }
+.slide-panel { flex: 1; display: flex; flex-direction: column; min-width: 0; background: #fff; }
+.slide-heading { padding: 16px 20px 0; }
+.slide-heading h2 { margin: 8px 0 0; font-size: 1.5rem; }
+.badge { display: inline-block; font-size: 0.75rem; font-weight: 600; border-radius: 999px; padding: 2px 10px; margin-right: 6px; background: #fef9c3; color: #854d0e; }
+.badge.type { background: #dbeafe; color: #1e40af; text-transform: capitalize; }
+.slide-frame { flex: 1; width: 100%; border: 0; }
+.work-panel { flex: 1; display: none; flex-direction: column; min-width: 0; border-left: 1px solid #e5e7eb; padding: 12px; gap: 10px; overflow-y: auto; }
+body.challenge .work-panel { display: flex; }
+.file-tabs button { border: 1px solid #d1d5db; background: #fff; border-radius: 4px 4px 0 0; padding: 4px 10px; font-family: ui-monospace, Menlo, monospace; font-size: 0.8rem; cursor: pointer; }
+.file-tabs button.active { background: #1f2937; color: #fff; border-color: #1f2937; }
+textarea.editor { width: 100%; min-height: 260px; flex: 1; resize: vertical; font-family: ui-monospace, Menlo, monospace; font-size: 0.85rem; line-height: 1.5; padding: 10px; border: 1px solid #d1d5db; border-radius: 6px; background: #111827; color: #f9fafb; tab-size: 2; }
+.toolbar { display: flex; gap: 8px; align-items: center; }
+button.primary, button.secondary { border-radius: 6px; padding: 6px 14px; font-weight: 600; cursor: pointer; border: 1px solid #4f46e5; }
+button.primary { background: #4f46e5; color: #fff; }
+button.secondary { background: #fff; color: #4f46e5; }
+button:disabled { opacity: 0.5; cursor: default; }
+.note { font-size: 0.8rem; color: #6b7280; }
+.preview { width: 100%; height: 240px; border: 1px solid #e5e7eb; border-radius: 6px; background: #fff; }
+.console { margin: 0; min-height: 60px; max-height: 180px; overflow: auto; background: #111827; color: #d1d5db; border-radius: 6px; padding: 8px 10px; font-size: 0.8rem; white-space: pre-wrap; }
+.console .error { color: #fca5a5; }
+.console .warn { color: #fde68a; }
+.tests { list-style: none; margin: 0; padding: 0; }
+.tests li { border: 1px solid #e5e7eb; border-radius: 6px; padding: 8px 10px; margin-bottom: 6px; background: #fff; font-size: 0.85rem; }
+.tests li.passed { background: #f0fdf4; border-color: #bbf7d0; }
+.tests li.failed { background: #fef2f2; border-color: #fecaca; }
+.tests .description { color: #6b7280; font-size: 0.8rem; margin-top: 2px; }
+.tests .message { color: #b91c1c; font-family: ui-monospace, Menlo, monospace; font-size: 0.75rem; white-space: pre-wrap; margin-top: 4px; }
+footer { display: flex; align-items: center; justify-content: space-between; padding: 10px 20px; background: #fff; border-top: 1px solid #e5e7eb; }
+.dots { display: flex; gap: 6px; }
+.dots button { width: 10px; height: 10px; border-radius: 50%; border: 0; padding: 0; background: #d1d5db; cursor: pointer; }
+.dots button.active { background: #4f46e5; }
+.dots button.passed { background: #22c55e; }
+`;
+
+/**
+ * Runs in the exported page: navigation between slides, and the editor and
+ * test runner for challenge slides
+ */
+const SITE_SCRIPT = String.raw`
+(function () {
+  var data = JSON.parse(document.getElementById('lesson-data').textContent);
+  var RUN_TIMEOUT_MS = 5000;
+  var slides = data.slides;
+  var current = 0;
+  var passedSlides = {};
+  // Each challenge keeps its edited files while the student moves between slides
+  var workspaces = slides.map(function (slide) {
+    return slide.challenge ? slide.challenge.files.map(function (file) { return { name: file.name, content: file.content }; }) : null;
+  });
+  var activeFile = 0;
+  var run = null;
+
+  var el = function (id) { return document.getElementById(id); };
+  var make = function (tag, className, text) {
+    var element = document.createElement(tag);
+    if (className) element.className = className;
+    if (text != null) element.textContent = text;
+    return element;
+  };
+  var extensionOf = function (name) { return (name.split('.').pop() || '').toLowerCase(); };
+  var escapeRegExp = function (value) { return value.replace(/[.*+?^$\{\}()|[\]\\]/g, '\\$&'); };
+  var escapeScript = function (content) { return content.replace(/<\/script/gi, '<\\/script'); };
+  var escapeStyle = function (content) { return content.replace(/<\/style/gi, '<\\/style'); };
+
+  // Remove script tags and a leading language identifier, as the lesson app does
+  var cleanCode = function (code) {
+    var cleaned = code.replace(/<script>/g, '').replace(/<\/script>/g, '')
+      .replace(/<script type="text\/javascript">/g, '').replace(/<script language="javascript">/g, '').trim();
+    return cleaned.replace(/^(javascript|js)(\s|$)/, '').trim();
+  };
+
+  // Stylesheets and scripts the HTML references by name are inlined in place; any others are appended
+  var buildDocument = function (files) {
+    var htmlFile = files.filter(function (file) { return extensionOf(file.name) === 'html'; })[0];
+    var html = htmlFile ? htmlFile.content : '<!DOCTYPE html>\n<html>\n<head>\n<meta charset="UTF-8" />\n</head>\n<body>\n</body>\n</html>';
+    var styles = '';
+    var scripts = '';
+    files.forEach(function (file) {
+      var name = escapeRegExp(file.name);
+      if (extensionOf(file.name) === 'css') {
+        var link = new RegExp('<link[^>]*href=["\'](?:\\./)?' + name + '["\'][^>]*>', 'gi');
+        if (link.test(html)) html = html.replace(link, function () { return '<style>\n' + escapeStyle(file.content) + '\n</style>'; });
+        else styles += '<style>\n' + escapeStyle(file.content) + '\n</style>\n';
+      } else if (extensionOf(file.name) === 'js') {
+        var script = new RegExp('<script([^>]*)src=["\'](?:\\./)?' + name + '["\']([^>]*)>\\s*</script>', 'gi');
+        if (script.test(html)) html = html.replace(script, function (match, before, after) { return '<script' + before + after + '>\n' + escapeScript(file.content) + '\n</script>'; });
+        else scripts += '<script>\n' + escapeScript(file.content) + '\n</script>\n';
+      }
+    });
+    var head = data.harness + styles;
+    html = /<head[^>]*>/i.test(html) ? html.replace(/<head[^>]*>/i, function (match) { return match + '\n' + head; }) : head + '\n' + html;
+    html = /<\/body>/i.test(html) ? html.replace(/<\/body>(?![\s\S]*<\/body>)/i, function () { return scripts + '\n</body>'; }) : html + '\n' + scripts;
+    return html;
+  };
+
+  var renderSlide = function () {
+    var slide = slides[current];
+    el('counter').textContent = 'Slide ' + (current + 1) + '/' + slides.length;
+    el('slide-title').textContent = slide.title;
+    var badges = el('slide-badges');
+    badges.innerHTML = '';
+    badges.appendChild(make('span', 'badge type', slide.type));
+    slide.tags.forEach(function (tag) { badges.appendChild(make('span', 'badge', tag)); });
+    el('slide-frame').srcdoc = slide.document;
+
+    el('prev').disabled = current === 0;
+    el('next').disabled = current === slides.length - 1;
+    var dots = el('dots');
+    dots.innerHTML = '';
+    slides.forEach(function (_slide, index) {
+      var dot = make('button', index === current ? 'active' : passedSlides[index] ? 'passed' : '');
+      dot.title = 'Slide ' + (index + 1);
+      dot.onclick = function () { goTo(index); };
+      dots.appendChild(dot);
+    });
+
+    document.body.classList.toggle('challenge', !!slide.challenge);
+    if (slide.challenge) {
+      activeFile = 0;
+      renderWorkspace();
+      renderTests(null);
+      el('console').innerHTML = '';
+      el('preview').style.display = 'none';
+    }
+  };
+
+  var goTo = function (index) {
+    if (index < 0 || index >= slides.length || index === current) return;
+    stopRun();
+    current = index;
+    history.replaceState(null, '', '#slide-' + (current + 1));
+    renderSlide();
+  };
+
+  var renderWorkspace = function () {
+    var challenge = slides[current].challenge;
+    var files = workspaces[current];
+    var tabs = el('file-tabs');
+    tabs.innerHTML = '';
+    if (challenge.workspace) {
+      files.forEach(function (file, index) {
+        var tab = make('button', index === activeFile ? 'active' : '', file.name);
+        tab.onclick = function () { activeFile = index; renderWorkspace(); };
+        tabs.appendChild(tab);
+      });
+    }
+    el('editor').value = files[activeFile].content;
+    el('runtime-note').textContent = challenge.runtime === 'python'
+      ? 'Python code needs the lesson app to run. Only the code checks run offline.'
+      : '';
+  };
+
+  var renderTests = function (results) {
+    var tests = slides[current].challenge.tests;
+    var list = el('tests');
+    list.innerHTML = '';
+    tests.forEach(function (test, index) {
+      var result = results && results.filter(function (r) { return r.id === test.id; })[0];
+      var item = make('li', result ? (result.passed ? 'passed' : 'failed') : '');
+      item.appendChild(make('div', '', (result ? (result.passed ? '✓ ' : '✗ ') : '') + 'Test ' + (index + 1) + ': ' + test.name));
+      if (test.description) item.appendChild(make('div', 'description', test.description));
+      if (result && !result.passed && result.message && result.message !== 'Test failed') item.appendChild(make('div', 'message', result.message));
+      list.appendChild(item);
+    });
+    var passed = results ? results.filter(function (r) { return r.passed; }).length : 0;
+    el('test-summary').textContent = tests.length ? passed + ' of ' + tests.length + ' tests passing' : '';
+  };
+
+  var log = function (level, message) {
+    var line = make('div', level, (level === 'error' ? 'Error: ' : level === 'warn' ? 'Warning: ' : '') + message);
+    el('console').appendChild(line);
+    return line.textContent;
+  };
+
+  var stopRun = function () {
+    if (!run) return;
+    window.removeEventListener('message', run.onMessage);
+    clearTimeout(run.timer);
+    if (run.frame !== el('preview')) run.frame.remove();
+    run = null;
+    el('run').disabled = false;
+  };
+
+  // Code checks run here; regex tests match the code and js tests receive it
+  var checkCode = function (test, target, consoleOutput, fileMap) {
+    try {
+      var passed = test.type === 'regex'
+        ? new RegExp(test.validation).test(target)
+        : !!new Function('code', 'consoleOutput', 'files', test.validation)(target, consoleOutput, fileMap);
+      return { id: test.id, passed: passed, message: passed ? 'Test passed!' : 'Test failed' };
+    } catch (e) {
+      return { id: test.id, passed: false, message: 'Error running test: ' + (e && e.message ? e.message : String(e)) };
+    }
+  };
+
+  var runChallenge = function () {
+    stopRun();
+    var slideIndex = current;
+    var challenge = slides[current].challenge;
+    var files = workspaces[current].map(function (file) {
+      return { name: file.name, content: challenge.workspace ? file.content : cleanCode(file.content) };
+    });
+    var fileMap = {};
+    files.forEach(function (file) { fileMap[file.name] = file.content; });
+    var code = challenge.workspace
+      ? files.map(function (file) { return '--- ' + file.name + ' ---\n' + file.content; }).join('\n\n')
+      : files[0].content;
+    var scripts = files.filter(function (file) { return extensionOf(file.name) === 'js'; }).map(function (file) { return file.content; }).join('\n;\n');
+    var targetOf = function (test) {
+      if (test.file) return fileMap[test.file] || '';
+      return test.type === 'unit' && challenge.workspace ? scripts : code;
+    };
+    el('console').innerHTML = '';
+    var consoleOutput = [];
+
+    var finish = function (pageResults) {
+      var results = challenge.tests.map(function (test) {
+        if (test.type === 'regex' || test.type === 'js') return checkCode(test, targetOf(test), consoleOutput, fileMap);
+        return pageResults.filter(function (r) { return r.id === test.id; })[0]
+          || { id: test.id, passed: false, message: 'Test failed' };
+      });
+      stopRun();
+      if (slideIndex !== current) return;
+      renderTests(results);
+      if (results.length > 0 && results.every(function (r) { return r.passed; })) {
+        passedSlides[slideIndex] = true;
+      }
+    };
+
+    if (challenge.runtime === 'python') {
+      consoleOutput.push(log('warn', 'Python code cannot run offline'));
+      run = { frame: el('preview'), onMessage: function () {}, timer: 0 };
+      finish(challenge.tests.filter(function (test) { return test.type === 'dom' || test.type === 'unit'; }).map(function (test) {
+        return { id: test.id, passed: false, message: 'This test needs the lesson app to run' };
+      }));
+      return;
+    }
+
+    var pageTests = challenge.tests.filter(function (test) { return test.type === 'dom' || test.type === 'unit'; });
+    var showsPage = files.some(function (file) { return extensionOf(file.name) === 'html'; });
+    var frame = showsPage ? el('preview') : make('iframe');
+    if (!showsPage) {
+      frame.setAttribute('sandbox', 'allow-scripts');
+      frame.style.display = 'none';
+      document.body.appendChild(frame);
+    }
+    frame.style.display = showsPage ? 'block' : 'none';
+
+    var onMessage = function (event) {
+      var message = event.data;
+      if (event.source !== frame.contentWindow || !message) return;
+      if (message.type === 'console') {
+        consoleOutput.push(log(message.level, String(message.message)));
+      } else if (message.type === 'loaded') {
+        frame.contentWindow.postMessage({
+          type: 'runTests',
+          files: fileMap,
+          consoleOutput: consoleOutput.slice(),
+          tests: pageTests.map(function (test) {
+            return { id: test.id, type: test.type, validation: test.validation, code: targetOf(test) };
+          })
+        }, '*');
+      } else if (message.type === 'testResults') {
+        finish(message.results);
+      }
+    };
+    run = {
+      frame: frame,
+      onMessage: onMessage,
+      timer: setTimeout(function () {
+        consoleOutput.push(log('error', 'Execution timed out after ' + RUN_TIMEOUT_MS + 'ms'));
+        finish(pageTests.map(function (test) { return { id: test.id, passed: false, message: 'Test failed: execution timed out' }; }));
+      }, RUN_TIMEOUT_MS)
+    };
+    window.addEventListener('message', onMessage);
+    el('run').disabled = true;
+    frame.srcdoc = buildDocument(files);
+  };
+
+  el('editor').addEventListener('input', function (event) {
+    workspaces[current][activeFile].content = event.target.value;
+  });
+  el('editor').addEventListener('keydown', function (event) {
+    if (event.key !== 'Tab') return;
+    event.preventDefault();
+    var editor = event.target;
+    var start = editor.selectionStart;
+    editor.setRangeText('  ', start, editor.selectionEnd, 'end');
+    workspaces[current][activeFile].content = editor.value;
+  });
+  el('run').onclick = runChallenge;
+  el('reset').onclick = function () {
+    workspaces[current] = slides[current].challenge.files.map(function (file) { return { name: file.name, content: file.content }; });
+    renderWorkspace();
+  };
+  el('prev').onclick = function () { goTo(current - 1); };
+  el('next').onclick = function () { goTo(current + 1); };
+  document.addEventListener('keydown', function (event) {
+    if (event.target === el('editor')) return;
+    if (event.key === 'ArrowLeft') goTo(current - 1);
+    if (event.key === 'ArrowRight') goTo(current + 1);
+  });
+  window.addEventListener('message', function (event) {
+    if (event.source === el('slide-frame').contentWindow && event.data && event.data.type === 'nextSlide') goTo(current + 1);
+  });
+
+  var start = /^#slide-(\d+)$/.exec(location.hash);
+  current = start ? Math.min(Math.max(parseInt(start[1], 10) - 1, 0), slides.length - 1) : 0;
+  renderSlide();
+})();
+`;
+
+/**
+ * Render a lesson as a standalone HTML page, slides in order
+ */
+export function renderLessonSite(lesson: Lesson, slides: Slide[]): string {
+  const data = {
+    harness: RUNNER_HARNESS,
+    slides: [...slides]
+      .sort((a, b) => a.order - b.order)
+      .map(slide => ({
+        title: slide.title,
+        type: slide.type,
+        tags: slide.tags ?? [],
+        document: slideDocument(lesson, slide),
+        challenge: slide.type === 'challenge' ? challengeOf(lesson, slide) : null,
+      })),
+  };
+  // Escaping "<" keeps slide markup from closing the data script early
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(lesson.title)}</title>
+<style>${SITE_CSS}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(lesson.title)}</h1>
+  <span class="counter" id="counter"></span>
+</header>
+<main>
+  <section class="slide-panel">
+    <div class="slide-heading">
+      <div id="slide-badges"></div>
+      <h2 id="slide-title"></h2>
+    </div>
+    <iframe class="slide-frame" id="slide-frame" sandbox="allow-scripts" title="Slide"></iframe>
+  </section>
+  <section class="work-panel">
+    <div class="file-tabs" id="file-tabs"></div>
+    <textarea class="editor" id="editor" spellcheck="false" aria-label="Code editor"></textarea>
+    <div class="toolbar">
+      <button class="primary" id="run">Run</button>
+      <button class="secondary" id="reset">Reset code</button>
+      <span class="note" id="runtime-note"></span>
+    </div>
+    <iframe class="preview" id="preview" sandbox="allow-scripts" title="Preview"></iframe>
+    <pre class="console" id="console"></pre>
+    <div>
+      <strong>Tests to Complete</strong> <span class="note" id="test-summary"></span>
+      <ul class="tests" id="tests"></ul>
+    </div>
+  </section>
+</main>
+<footer>
+  <button class="secondary" id="prev">Previous</button>
+  <div class="dots" id="dots"></div>
+  <button class="primary" id="next">Next</button>
+</footer>
+<script type="application/json" id="lesson-data">${json}</script>
+<script>${escapeScript(SITE_SCRIPT)}</script>
+</body>
+</html>
+`;
+}
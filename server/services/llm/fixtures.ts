@@ -0,0 +1,77 @@
+import type { LLMFixture } from "./mockProvider";
+
+/**
+ * Fixtures replayed by the mock provider when no fixture file is configured.
+ * They keep lesson generation and chat usable offline.
+ */
+export const defaultFixtures: LLMFixture[] = [
+  {
+    mode: "json",
+    match: "^Create an interactive coding lesson",
+    content: {
+      title: "Functions in JavaScript",
+      description: "Learn how to write and call your own functions.",
+      language: "javascript",
+      estimatedTime: "15 minutes",
+      slides: [
+        {
+          title: "What is a Function?",
+          content: "# What is a Function?\n\nA **function** is a reusable block of code with a name. You define it once and call it whenever you need it.\n\n```javascript\nfunction greet(name) {\n  return `Hello, ${name}!`;\n}\n\nconsole.log(greet('Mumu'));\n```",
+          type: "info",
+          tags: ["functions", "basics"],
+        },
+        {
+          title: "Write Your First Function",
+          content: "# Write Your First Function\n\nWrite a function called `add` that takes two numbers and returns their sum. Then log `add(2, 3)`.",
+          type: "challenge",
+          tags: ["functions", "challenge"],
+          initialCode: "function add(a, b) {\n  // Your code here\n}\n\nconsole.log(add(2, 3));\n",
+          filename: "add.js",
+          tests: [
+            {
+              name: "Defines add",
+              description: "Declare a function named add",
+              validation: "function\\s+add\\s*\\(",
+              type: "regex",
+            },
+            {
+              name: "Adds numbers",
+              description: "add returns the sum of its arguments",
+              validation: "describe('add', () => {\n  it('adds two numbers', () => {\n    expect(add(2, 3)).to.equal(5);\n  });\n  it('handles negatives', () => {\n    expect(add(-1, 1)).to.equal(0);\n  });\n});",
+              type: "unit",
+            },
+          ],
+        },
+        {
+          title: "Quiz: Functions",
+          content: "# Quiz\n\nWhat does a function return if it has no `return` statement?\n\n- `null`\n- `undefined`\n- `0`",
+          type: "quiz",
+          tags: ["functions", "quiz"],
+        },
+      ],
+    },
+  },
+  {
+    mode: "json",
+    match: "^Generate test cases",
+    content: {
+      tests: [
+        {
+          id: "test-1",
+          name: "Logs output",
+          description: "The code prints something to the console",
+          validation: "return consoleOutput.length > 0;",
+          type: "js",
+        },
+      ],
+    },
+  },
+  {
+    mode: "chat",
+    content: "I'm running in offline mode right now, so I can only give scripted answers. Try running your code and checking the test results, and ask your teacher if you get stuck! 🐯",
+  },
+  {
+    mode: "tools",
+    content: "I'm running in offline mode right now, so I can't change the lesson. Try again when I'm back online! 🐯",
+  },
+];
@@ -0,0 +1,47 @@
+import { OpenAIProvider } from "./openaiProvider";
+import { LocalProvider } from "./localProvider";
+import { MockProvider } from "./mockProvider";
+import { defaultFixtures } from "./fixtures";
+import type { LLMProvider } from "./provider";
+
+export * from "./provider";
+export { OpenAIProvider, LocalProvider, MockProvider };
+export type { LLMFixture, LLMRequestRecord } from "./mockProvider";
+
+/**
+ * Pick the provider from the environment. LLM_PROVIDER (openai, local or mock)
+ * wins; otherwise LLM_BASE_URL selects a local server and OPENAI_API_KEY
+ * selects OpenAI. With neither set the mock is used in development and tests,
+ * and anywhere else startup fails rather than serving canned replies.
+ */
+function createLLMProvider(): LLMProvider {
+  // Unset NODE_ENV counts as development, as it does for Express
+  const environment = process.env.NODE_ENV || "development";
+  const provider = process.env.LLM_PROVIDER || (
+    process.env.LLM_BASE_URL ? "local"
+      : process.env.OPENAI_API_KEY ? "openai"
+      : environment === "development" || environment === "test" ? "mock"
+      : undefined
+  );
+  if (!provider) {
+    throw new Error(`No LLM provider is configured for ${environment}: set OPENAI_API_KEY or LLM_BASE_URL, or LLM_PROVIDER=mock to use canned replies`);
+  }
+  const model = process.env.LLM_MODEL || undefined;
+
+  switch (provider) {
+    case "openai":
+      return new OpenAIProvider({ apiKey: process.env.OPENAI_API_KEY, model });
+    case "local":
+      if (!process.env.LLM_BASE_URL) {
+        throw new Error("LLM_BASE_URL must be set to use the local LLM provider");
+      }
+      return new LocalProvider({ baseURL: process.env.LLM_BASE_URL, model, apiKey: process.env.LLM_API_KEY });
+    case "mock":
+      console.warn("[LLM] Using the mock provider; replies come from fixtures");
+      return process.env.LLM_FIXTURES ? MockProvider.fromFile(process.env.LLM_FIXTURES) : new MockProvider(defaultFixtures);
+    default:
+      throw new Error(`Unknown LLM provider "${provider}"`);
+  }
+}
+
+export const llm: LLMProvider = createLLMProvider();
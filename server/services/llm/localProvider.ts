@@ -0,0 +1,43 @@
+import { OpenAIProvider } from "./openaiProvider";
+import type { LLMMessage } from "./provider";
+
+export const DEFAULT_LOCAL_MODEL = "llama3.1";
+
+export interface LocalProviderOptions {
+  baseURL: string; // e.g. http://localhost:11434/v1 for Ollama, http://localhost:8080/v1 for llama.cpp
+  model?: string;
+  apiKey?: string;
+}
+
+/**
+ * Pull the JSON object out of a reply that may wrap it in prose or a code fence
+ */
+export function extractJsonObject(text: string): string {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  return start !== -1 && end > start ? candidate.slice(start, end + 1) : candidate.trim();
+}
+
+/**
+ * Adapter for OpenAI-compatible servers running locally, such as Ollama or
+ * llama.cpp. Local models follow JSON mode less reliably, so the instruction is
+ * repeated in the prompt and the object is extracted from the reply.
+ */
+export class LocalProvider extends OpenAIProvider {
+  readonly name = "local";
+
+  constructor({ baseURL, model = DEFAULT_LOCAL_MODEL, apiKey }: LocalProviderOptions) {
+    // The SDK insists on a key even though local servers ignore it
+    super({ baseURL, model, apiKey: apiKey || "local" });
+  }
+
+  async json(messages: LLMMessage[]): Promise<string> {
+    const reply = await super.json([
+      ...messages,
+      { role: "system", content: "Respond with a single JSON object only, without any other text." },
+    ]);
+    return extractJsonObject(reply);
+  }
+}
@@ -0,0 +1,130 @@
+import fs from "fs";
+import type {
+  CompleteOptions,
+  LLMCompletion,
+  LLMMessage,
+  LLMProvider,
+  LLMToolCall,
+  StreamOptions,
+} from "./provider";
+
+export type LLMRequestMode = "chat" | "json" | "tools";
+
+/**
+ * A scripted reply. Each request is answered by the first unused fixture whose
+ * `mode` and `match` fit it; once all of those are used the last one repeats.
+ */
+export interface LLMFixture {
+  mode?: LLMRequestMode; // Which kind of request this answers, any when omitted
+  match?: string; // Regex (case-insensitive) tested against the last user message
+  content?: string | Record<string, any>; // Reply text; objects are serialised to JSON
+  toolCalls?: { name: string; arguments: Record<string, any> }[];
+}
+
+export interface LLMRequestRecord {
+  mode: LLMRequestMode;
+  messages: LLMMessage[];
+  fixture: number | null; // Index of the fixture that answered, null for the default reply
+}
+
+/**
+ * Deterministic provider that replays fixtures instead of calling a model, so
+ * lesson generation and chat work without network access
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly model = "mock";
+  readonly requests: LLMRequestRecord[] = [];
+  private used = new Set<number>();
+
+  constructor(private fixtures: LLMFixture[] = []) {}
+
+  /** Load fixtures from a JSON file holding an array of LLMFixture */
+  static fromFile(path: string): MockProvider {
+    const fixtures = JSON.parse(fs.readFileSync(path, "utf-8"));
+    if (!Array.isArray(fixtures)) {
+      throw new Error(`LLM fixture file ${path} must contain an array`);
+    }
+    return new MockProvider(fixtures);
+  }
+
+  async chat(messages: LLMMessage[], { onDelta }: StreamOptions = {}): Promise<string> {
+    const fixture = this.next("chat", messages);
+    const content = fixture ? this.text(fixture) : `(mock) ${lastUserMessage(messages)}`;
+    if (onDelta) streamWords(content, onDelta);
+    return content;
+  }
+
+  async json(messages: LLMMessage[]): Promise<string> {
+    const fixture = this.next("json", messages);
+    return fixture ? this.text(fixture) : "{}";
+  }
+
+  async complete(messages: LLMMessage[], { tools, toolChoice, onDelta }: CompleteOptions = {}): Promise<LLMCompletion> {
+    const offered = toolChoice === "none" ? [] : tools || [];
+    const fixture = this.next(offered.length > 0 ? "tools" : "chat", messages);
+    const content = fixture ? this.text(fixture) || null : `(mock) ${lastUserMessage(messages)}`;
+    if (onDelta && content) streamWords(content, onDelta);
+
+    // Only offer tool calls for tools the caller made available
+    const available = new Set(offered.map(tool => tool.function.name));
+    const toolCalls: LLMToolCall[] = (fixture?.toolCalls || [])
+      .filter(call => available.has(call.name))
+      .map((call, index) => ({
+        id: `mock_call_${this.requests.length}_${index}`,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      }));
+
+    return {
+      content,
+      toolCalls,
+      message: { role: "assistant", content, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) },
+    };
+  }
+
+  /** Forget which fixtures were used and the recorded requests */
+  reset() {
+    this.used.clear();
+    this.requests.length = 0;
+  }
+
+  /** Replay these fixtures from now on, starting afresh */
+  setFixtures(fixtures: LLMFixture[]) {
+    this.fixtures = fixtures;
+    this.reset();
+  }
+
+  private next(mode: LLMRequestMode, messages: LLMMessage[]): LLMFixture | null {
+    const prompt = lastUserMessage(messages);
+    const candidates = this.fixtures
+      .map((fixture, index) => ({ fixture, index }))
+      .filter(({ fixture }) =>
+        (!fixture.mode || fixture.mode === mode) &&
+        (!fixture.match || new RegExp(fixture.match, "i").test(prompt))
+      );
+
+    const pick = candidates.find(({ index }) => !this.used.has(index)) || candidates[candidates.length - 1];
+    if (pick) this.used.add(pick.index);
+
+    this.requests.push({ mode, messages, fixture: pick ? pick.index : null });
+    return pick ? pick.fixture : null;
+  }
+
+  private text(fixture: LLMFixture): string {
+    if (fixture.content === undefined) return "";
+    return typeof fixture.content === "string" ? fixture.content : JSON.stringify(fixture.content);
+  }
+}
+
+// Replay a reply a word at a time, as a model would stream it
+function streamWords(text: string, onDelta: (text: string) => void) {
+  (text.match(/\S+\s*|\s+/g) || []).forEach(word => onDelta(word));
+}
+
+function lastUserMessage(messages: LLMMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "user") return messages[i].content || "";
+  }
+  return "";
+}
@@ -0,0 +1,146 @@
+import OpenAI from "openai";
+import {
+  LLMProviderError,
+  type CompleteOptions,
+  type LLMCompletion,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMToolCall,
+  type StreamOptions,
+} from "./provider";
+
+// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+export const DEFAULT_OPENAI_MODEL = "gpt-4o";
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+}
+
+/**
+ * Adapter for the OpenAI chat completions API
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = "openai";
+  readonly model: string;
+  protected client: OpenAI;
+
+  constructor({ apiKey, baseURL, model = DEFAULT_OPENAI_MODEL }: OpenAIProviderOptions = {}) {
+    this.model = model;
+    this.client = new OpenAI({ apiKey, baseURL });
+  }
+
+  async chat(messages: LLMMessage[], options: StreamOptions = {}): Promise<string> {
+    const completion = await this.complete(messages, options);
+    return completion.content || "";
+  }
+
+  async json(messages: LLMMessage[]): Promise<string> {
+    const response = await this.create({
+      model: this.model,
+      messages: messages.map(toOpenAIMessage),
+      response_format: { type: "json_object" },
+    });
+    return response.choices[0].message.content || "";
+  }
+
+  async complete(messages: LLMMessage[], { tools, toolChoice, onDelta }: CompleteOptions = {}): Promise<LLMCompletion> {
+    const body = {
+      model: this.model,
+      messages: messages.map(toOpenAIMessage),
+      ...(tools && tools.length > 0 ? { tools, tool_choice: toolChoice || "auto" } : {}),
+    };
+
+    if (onDelta) {
+      const { content, toolCalls } = await this.stream(body, onDelta);
+      return toCompletion(content, toolCalls);
+    }
+
+    const message = (await this.create(body)).choices[0].message;
+    const toolCalls = (message.tool_calls || []).map(call => ({
+      id: call.id,
+      type: "function" as const,
+      function: { name: call.function.name, arguments: call.function.arguments },
+    }));
+    return toCompletion(message.content, toolCalls);
+  }
+
+  /** Stream a completion, passing text on as it arrives and assembling tool calls from their fragments */
+  protected async stream(
+    body: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+    onDelta: (text: string) => void
+  ): Promise<{ content: string | null; toolCalls: LLMToolCall[] }> {
+    let content: string | null = null;
+    const toolCalls: LLMToolCall[] = [];
+
+    try {
+      const stream = await this.client.chat.completions.create({ ...body, stream: true });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          content = (content || "") + delta.content;
+          onDelta(delta.content);
+        }
+
+        for (const fragment of delta.tool_calls || []) {
+          const call = toolCalls[fragment.index] ||= { id: "", type: "function", function: { name: "", arguments: "" } };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.function.name += fragment.function.name;
+          if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof OpenAI.APIError) {
+        throw new LLMProviderError(error.message, this.name, error.status);
+      }
+      throw error;
+    }
+
+    return { content, toolCalls: toolCalls.filter(Boolean) };
+  }
+
+  /** Send a request, reporting API and connection failures as LLMProviderError */
+  protected async create(body: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming) {
+    try {
+      return await this.client.chat.completions.create(body);
+    } catch (error: any) {
+      if (error instanceof OpenAI.APIError) {
+        throw new LLMProviderError(error.message, this.name, error.status);
+      }
+      throw error;
+    }
+  }
+}
+
+/** The OpenAI form of a message; each role takes different fields */
+function toOpenAIMessage({ role, content, name, tool_calls, tool_call_id }: LLMMessage): OpenAI.Chat.ChatCompletionMessageParam {
+  const named = name ? { name } : {};
+  switch (role) {
+    case "system":
+      return { role, content: content ?? "", ...named };
+    case "user":
+      return { role, content: content ?? "", ...named };
+    case "assistant":
+      return { role, content, ...named, ...(tool_calls && tool_calls.length > 0 ? { tool_calls } : {}) };
+    case "tool":
+      if (!tool_call_id) {
+        throw new Error("Tool result messages need the tool_call_id they answer");
+      }
+      return { role, content: content ?? "", tool_call_id };
+  }
+}
+
+function toCompletion(content: string | null, toolCalls: LLMToolCall[]): LLMCompletion {
+  return {
+    content,
+    toolCalls,
+    message: {
+      role: "assistant",
+      content,
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    },
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Provider-neutral types for talking to a language model. Messages and tool
+ * calls follow the OpenAI chat format, which local servers also speak.
+ */
+
+export interface LLMTool {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: {
+      type: string;
+      properties?: Record<string, any>;
+      required?: string[];
+    };
+  };
+}
+
+export interface LLMToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string; // JSON encoded
+  };
+}
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  name?: string;
+  tool_calls?: LLMToolCall[];
+  tool_call_id?: string;
+}
+
+export interface LLMCompletion {
+  content: string | null;
+  toolCalls: LLMToolCall[];
+  message: LLMMessage; // The assistant message, ready to append to the conversation
+}
+
+export interface StreamOptions {
+  onDelta?: (text: string) => void; // Receives the reply text as it is generated
+}
+
+export interface CompleteOptions extends StreamOptions {
+  tools?: LLMTool[];
+  toolChoice?: "auto" | "none" | "required";
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+
+  /** Plain chat completion, returning the reply text */
+  chat(messages: LLMMessage[], options?: StreamOptions): Promise<string>;
+
+  /** JSON mode: the reply text, constrained to a single JSON object */
+  json(messages: LLMMessage[]): Promise<string>;
+
+  /** Completion that may ask for tool calls. Streams text when `onDelta` is given. */
+  complete(messages: LLMMessage[], options?: CompleteOptions): Promise<LLMCompletion>;
+}
+
+/**
+ * The provider couldn't be reached or rejected the request. Retrying the same
+ * request won't help, unlike a reply that fails validation.
+ */
+export class LLMProviderError extends Error {
+  constructor(message: string, readonly provider: string, readonly status?: number) {
+    super(message);
+    this.name = "LLMProviderError";
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Splitting Markdown documents into slides and turning them into lesson
+ * bundles for import.
+ *
+ * Run with `npm test`.
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LessonBundleError } from './lessonBundle';
+import { markdownImportSchema, markdownToLessonBundle, parseMarkdownSlides } from './markdownLesson';
+
+describe('parseMarkdownSlides', () => {
+  it('starts a slide at every H1 and takes its title from the heading', () => {
+    const slides = parseMarkdownSlides('# Variables\n\nA box for a value.\n\n## Naming\n\nUse camelCase.\n# Functions\n\nReusable code.');
+
+    assert.deepEqual(slides.map(slide => [slide.title, slide.content]), [
+      ['Variables', 'A box for a value.\n\n## Naming\n\nUse camelCase.'],
+      ['Functions', 'Reusable code.'],
+    ]);
+  });
+
+  it('splits on --- lines and numbers slides without a heading', () => {
+    const slides = parseMarkdownSlides('Welcome!\n---\n# Loops\n\nRepeat code.\n---\n\nThe end.\n');
+
+    assert.deepEqual(slides.map(slide => [slide.title, slide.content]), [
+      ['Slide 1', 'Welcome!'],
+      ['Loops', 'Repeat code.'],
+      ['Slide 3', 'The end.'],
+    ]);
+  });
+
+  it('leaves headings and --- inside fenced code alone', () => {
+    const [slide, ...rest] = parseMarkdownSlides('# Comments\n\n```python\n# not a slide\n---\nprint(1)\n```');
+
+    assert.equal(rest.length, 0);
+    assert.equal(slide.content, '```python\n# not a slide\n---\nprint(1)\n```');
+  });
+
+  it('reads front-matter fields, including | blocks', () => {
+    const [slide] = parseMarkdownSlides([
+      '---',
+      'type: challenge',
+      'tags: [functions, "basics"]',
+      'filename: add.js',
+      'initialCode: |',
+      '  function add(a, b) {',
+      '    // Your code here',
+      '  }',
+      '---',
+      '# Write an add function',
+      '',
+      'Return the sum.',
+    ].join('\n'));
+
+    assert.equal(slide.title, 'Write an add function');
+    assert.equal(slide.type, 'challenge');
+    assert.deepEqual(slide.tags, ['functions', 'basics']);
+    assert.equal(slide.filename, 'add.js');
+    assert.equal(slide.initialCode, 'function add(a, b) {\n  // Your code here\n}');
+    assert.equal(slide.content, 'Return the sum.');
+  });
+
+  it('prefers a front-matter title to the heading', () => {
+    const [slide] = parseMarkdownSlides('---\ntitle: "Quiz time"\ntype: quiz\n---\n# Question 1\n\nWhat is 2 + 2?');
+
+    assert.equal(slide.title, 'Quiz time');
+    assert.equal(slide.content, 'What is 2 + 2?');
+  });
+
+  it('treats --- followed by ordinary text as a separator', () => {
+    const slides = parseMarkdownSlides('# One\n---\nNote: not front-matter\n---\n# Two');
+
+    assert.deepEqual(slides.map(slide => [slide.title, slide.content]), [
+      ['One', ''],
+      ['Slide 2', 'Note: not front-matter'],
+      ['Two', ''],
+    ]);
+  });
+
+  it('reads tests written as name | description | validation | type lines', () => {
+    const [slide] = parseMarkdownSlides([
+      '---',
+      'type: challenge',
+      'tests: |',
+      '  Defines add | Declare a function called add | function\\s+add | regex',
+      '  Logs the sum | Print add(2, 3) | return consoleOutput.includes("5"); | js',
+      '---',
+      '# Add',
+    ].join('\n'));
+
+    assert.deepEqual(slide.tests.map(test => [test.name, test.description, test.validation, test.type]), [
+      ['Defines add', 'Declare a function called add', 'function\\s+add', 'regex'],
+      ['Logs the sum', 'Print add(2, 3)', 'return consoleOutput.includes("5");', 'js'],
+    ]);
+  });
+});
+
+describe('markdownToLessonBundle', () => {
+  it('names the lesson after the first slide unless told otherwise', () => {
+    const markdown = '# Intro\n\nHello\n# Next\n\nMore';
+
+    const bundle = markdownToLessonBundle(markdown);
+    assert.equal(bundle.lesson.title, 'Intro');
+    assert.equal(bundle.lesson.description, '2 slides imported from Markdown');
+    assert.equal(bundle.lesson.difficulty, 'beginner');
+    assert.equal(bundle.lesson.format, 'markdown');
+
+    const named = markdownToLessonBundle(markdown, { title: '  My Lesson ', difficulty: 'advanced', language: 'python' });
+    assert.equal(named.lesson.title, 'My Lesson');
+    assert.equal(named.lesson.difficulty, 'advanced');
+    assert.equal(named.lesson.language, 'python');
+  });
+
+  it('rejects a document with no slides', () => {
+    assert.throws(() => markdownToLessonBundle('---\n\n---\n'), LessonBundleError);
+  });
+});
+
+describe('markdownImportSchema', () => {
+  it('accepts a document with optional string details', () => {
+    const parsed = markdownImportSchema.parse({ markdown: '# A', title: 'A', difficulty: 'intermediate' });
+    assert.deepEqual(parsed, { markdown: '# A', title: 'A', difficulty: 'intermediate' });
+  });
+
+  it('rejects bodies the importer cannot use', () => {
+    for (const body of [{}, { markdown: '  \n' }, { markdown: '# A', title: 5 }, { markdown: '# A', difficulty: 'expert' }]) {
+      assert.equal(markdownImportSchema.safeParse(body).success, false, JSON.stringify(body));
+    }
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Markdown lesson import: a whole lesson authored in one `.md` file.
+ *
+ * Slides are separated by `---` lines or start at a `# ` heading, which becomes
+ * the slide title. A slide can begin with front-matter between two `---` lines:
+ *
+ *   ---
+ *   type: challenge
+ *   tags: functions, basics
+ *   filename: script.js
+ *   initialCode: |
+ *     function add(a, b) {
+ *     }
+ *   tests: |
+ *     Defines add | Declare a function called add | function\s+add | regex
+ *   ---
+ *   # Write an add function
+ *
+ * Tests use the same `name | description | validation | type` lines as the
+ * lesson editor. Slide bodies keep the Markdown conventions the lesson viewer
+ * renders (`> ` info boxes, HINT:/WARNING:/TIP: paragraphs, fenced code).
+ */
+import { z } from 'zod';
+import { parseTests } from '@shared/testDefinitions';
+import { DIFFICULTIES } from './intent/types';
+import { LESSON_BUNDLE_FORMAT, LESSON_BUNDLE_VERSION, LessonBundleError, parseLessonBundle, type LessonBundle } from './lessonBundle';
+
+const FRONT_MATTER_KEYS = ['title', 'type', 'tags', 'filename', 'initialCode', 'tests'];
+
+// The body of a Markdown import request; the optional fields override what the document implies
+export const markdownImportSchema = z.object({
+  markdown: z.string({ required_error: 'Markdown is required' }).refine(markdown => markdown.trim().length > 0, 'Markdown is required'),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  difficulty: z.enum(DIFFICULTIES).optional(),
+  language: z.string().optional(),
+});
+
+export type MarkdownLessonDetails = Omit<z.infer<typeof markdownImportSchema>, 'markdown'>;
+
+interface DraftSlide {
+  frontMatter: Record<string, string>;
+  title: string;
+  body: string[];
+}
+
+const isSeparator = (line: string) => /^---\s*$/.test(line);
+const isFence = (line: string) => /^\s*```/.test(line);
+
+/**
+ * Read front-matter from `lines[start]` up to the closing `---`. Returns null
+ * when those lines aren't front-matter, so the `---` before them is only a separator.
+ */
+function readFrontMatter(lines: string[], start: number): { values: Record<string, string>; end: number } | null {
+  const values: Record<string, string> = {};
+  let blockKey: string | null = null;
+  let blockLines: string[] = [];
+
+  const closeBlock = () => {
+    if (!blockKey) return;
+    const indents = blockLines.filter(line => line.trim()).map(line => line.match(/^\s*/)![0].length);
+    const indent = indents.length > 0 ? Math.min(...indents) : 0;
+    values[blockKey] = blockLines.map(line => line.slice(indent)).join('\n').replace(/\s+$/, '');
+    blockKey = null;
+    blockLines = [];
+  };
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    if (isSeparator(line)) {
+      closeBlock();
+      return Object.keys(values).length > 0 ? { values, end: i } : null;
+    }
+    if (blockKey && (/^\s/.test(line) || !line.trim())) {
+      blockLines.push(line);
+      continue;
+    }
+    closeBlock();
+    if (!line.trim()) continue;
+
+    const entry = line.match(/^(\w+):\s*(.*)$/);
+    if (!entry || !FRONT_MATTER_KEYS.includes(entry[1])) return null;
+    if (entry[2].trim() === '|') {
+      blockKey = entry[1];
+    } else {
+      values[entry[1]] = entry[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+    }
+  }
+  return null;
+}
+
+const parseTags = (value: string) =>
+  value.replace(/^\[|\]$/g, '').split(',').map(tag => tag.trim().replace(/^(["'])(.*)\1$/, '$2')).filter(Boolean);
+
+/**
+ * Split a Markdown document into slides
+ */
+export function parseMarkdownSlides(markdown: string): LessonBundle['slides'] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const drafts: DraftSlide[] = [];
+  let slide: DraftSlide = { frontMatter: {}, title: '', body: [] };
+  let inFence = false;
+
+  const isEmpty = (draft: DraftSlide) =>
+    !draft.title && Object.keys(draft.frontMatter).length === 0 && draft.body.every(line => !line.trim());
+  const startSlide = () => {
+    if (!isEmpty(slide)) drafts.push(slide);
+    slide = { frontMatter: {}, title: '', body: [] };
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (isFence(line)) {
+      inFence = !inFence;
+    } else if (!inFence && isSeparator(line)) {
+      startSlide();
+      const frontMatter = readFrontMatter(lines, i + 1);
+      if (frontMatter) {
+        slide.frontMatter = frontMatter.values;
+        i = frontMatter.end;
+      }
+      continue;
+    } else if (!inFence && /^# /.test(line)) {
+      // A heading starts a new slide, unless this slide has nothing but front-matter so far
+      if (slide.title || slide.body.some(bodyLine => bodyLine.trim())) startSlide();
+      slide.title = line.slice(2).trim();
+      continue;
+    }
+    slide.body.push(line);
+  }
+  startSlide();
+
+  return drafts.map((draft, index) => {
+    const { frontMatter } = draft;
+    return {
+      title: frontMatter.title || draft.title || `Slide ${index + 1}`,
+      content: draft.body.join('\n').trim(),
+      type: (frontMatter.type || 'info') as LessonBundle['slides'][number]['type'],
+      tags: frontMatter.tags ? parseTags(frontMatter.tags) : [],
+      initialCode: frontMatter.initialCode ?? null,
+      filename: frontMatter.filename || null,
+      files: [],
+      tests: frontMatter.tests ? parseTests(frontMatter.tests) : [],
+    };
+  });
+}
+
+/**
+ * Turn a Markdown document into a lesson bundle, validated the same way as an
+ * exported lesson so it can be imported with importLessonBundle
+ */
+export function markdownToLessonBundle(markdown: string, details: MarkdownLessonDetails = {}): LessonBundle {
+  const slides = parseMarkdownSlides(markdown);
+  if (slides.length === 0) {
+    throw new LessonBundleError('The document has no slides');
+  }
+
+  return parseLessonBundle({
+    format: LESSON_BUNDLE_FORMAT,
+    version: LESSON_BUNDLE_VERSION,
+    lesson: {
+      title: details.title?.trim() || slides[0].title,
+      description: details.description?.trim() || `${slides.length} slides imported from Markdown`,
+      difficulty: details.difficulty || 'beginner',
+      language: details.language || 'javascript',
+      format: 'markdown',
+    },
+    slides,
+  });
+}
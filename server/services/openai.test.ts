@@ -0,0 +1,126 @@
+/**
+ * Lesson generation against scripted replies from the mock LLM provider,
+ * covering the retries for malformed lessons and the slide repair path.
+ *
+ * Run with `npm test`.
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { llm, MockProvider, type LLMFixture } from './llm';
+import { generateLesson } from './openai';
+
+assert.ok(llm instanceof MockProvider, 'Tests need the mock LLM provider; unset LLM_PROVIDER');
+const mock = llm;
+
+const LESSON_PROMPT = '^Create an interactive coding lesson';
+const SLIDE_FIX_PROMPT = '^You are fixing a slide';
+
+const infoSlide = {
+  title: 'What is a Loop?',
+  content: '# Loops\n\nA loop runs the same code more than once.',
+  type: 'info',
+  tags: ['loops'],
+};
+
+const challengeSlide = {
+  title: 'Count to Five',
+  content: '# Count to Five\n\nLog the numbers 1 to 5 with a `for` loop.',
+  type: 'challenge',
+  tags: ['loops'],
+  initialCode: '// Your code here\n',
+  tests: [{ name: 'Uses a for loop', description: 'Write a for loop', validation: 'for\\s*\\(', type: 'regex' }],
+};
+
+function lessonReply(slides: unknown[]): LLMFixture {
+  return {
+    mode: 'json',
+    match: LESSON_PROMPT,
+    content: { title: 'Loops', description: 'Repeat yourself less.', language: 'javascript', slides },
+  };
+}
+
+describe('generateLesson', () => {
+  it('returns the lesson when the first reply is valid', async () => {
+    mock.setFixtures([lessonReply([infoSlide, challengeSlide])]);
+
+    const checked: number[] = [];
+    const lesson = await generateLesson('loops', 'beginner', 'markdown', { onSlideChecked: count => checked.push(count) });
+
+    assert.equal(lesson.title, 'Loops');
+    assert.deepEqual(lesson.slides.map(slide => slide.title), ['What is a Loop?', 'Count to Five']);
+    assert.ok(lesson.slides[1].tests[0].id, 'tests are given ids');
+    assert.deepEqual(checked, [1, 2]);
+    assert.equal(mock.requests.length, 1);
+    assert.match(mock.requests[0].messages[0].content!, /about loops/);
+  });
+
+  it('asks again when a reply is not a lesson', async () => {
+    mock.setFixtures([
+      { mode: 'json', match: LESSON_PROMPT, content: 'Here is your lesson!' },
+      { mode: 'json', match: LESSON_PROMPT, content: { title: 'Loops', slides: [] } },
+      lessonReply([infoSlide]),
+    ]);
+
+    const lesson = await generateLesson('loops');
+
+    assert.deepEqual(lesson.slides.map(slide => slide.title), ['What is a Loop?']);
+    assert.deepEqual(mock.requests.map(request => request.fixture), [0, 1, 2]);
+  });
+
+  it('gives up once every attempt is invalid', async () => {
+    mock.setFixtures([{ mode: 'json', match: LESSON_PROMPT, content: {} }]);
+
+    await assert.rejects(generateLesson('loops'), /Failed to generate lesson/);
+    assert.equal(mock.requests.length, 3);
+  });
+
+  it('repairs the usual format slips without asking the model', async () => {
+    mock.setFixtures([lessonReply([{
+      ...challengeSlide,
+      type: 'Challenge',
+      tags: 'loops, for',
+      filename: null,
+      tests: [
+        { name: 'Uses a for loop', validation: '/for\\s*\\(/', type: 'regex' },
+        { name: 'Logs five lines', description: 'Print 1 to 5', validation: 'return consoleOutput.length === 5;', type: 'javascript' },
+      ],
+    }])]);
+
+    const [slide] = (await generateLesson('loops')).slides;
+
+    assert.equal(slide.type, 'challenge');
+    assert.deepEqual(slide.tags, ['loops', 'for']);
+    assert.equal(slide.filename, undefined);
+    assert.deepEqual(slide.tests.map(test => [test.type, test.validation, test.description]), [
+      ['regex', 'for\\s*\\(', ''],
+      ['js', 'return consoleOutput.length === 5;', 'Print 1 to 5'],
+    ]);
+    assert.equal(mock.requests.length, 1);
+  });
+
+  it('has the model correct a slide that repairs cannot fix', async () => {
+    mock.setFixtures([
+      lessonReply([infoSlide, { ...challengeSlide, tests: [] }]),
+      { mode: 'json', match: SLIDE_FIX_PROMPT, content: challengeSlide },
+    ]);
+
+    const lesson = await generateLesson('loops');
+
+    assert.equal(lesson.slides[1].tests.length, 1);
+    assert.equal(mock.requests.length, 2);
+    assert.match(mock.requests[1].messages[0].content!, /Challenge slides need at least one test/);
+  });
+
+  it('drops a slide that is still malformed after the corrections', async () => {
+    const broken = { ...challengeSlide, tests: [] };
+    mock.setFixtures([
+      lessonReply([infoSlide, broken]),
+      { mode: 'json', match: SLIDE_FIX_PROMPT, content: broken },
+    ]);
+
+    const lesson = await generateLesson('loops');
+
+    assert.deepEqual(lesson.slides.map(slide => slide.title), ['What is a Loop?']);
+    assert.equal(mock.requests.length, 3);
+  });
+});
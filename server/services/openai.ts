@@ -1,29 +1,14 @@
-import OpenAI from "openai";
+import { z, ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { v4 as uuidv4 } from "uuid";
 import { storage } from "../storage";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const MODEL = "gpt-4o";
-
-// Initialize the OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { insertSlideSchema, type LessonOutlineSlide, type ToolCallRecord } from "@shared/schema";
+import { llm, LLMProviderError, type LLMMessage, type LLMTool, type LLMToolCall } from "./llm";
 
 /**
  * Tool definition interface
  */
-export interface Tool {
-  type: "function";
-  function: {
-    name: string;
-    description: string;
-    parameters: {
-      type: string;
-      properties?: Record<string, any>;
-      required?: string[];
-    };
-  };
-}
+export type Tool = LLMTool;
 
 /**
  * Message interface to match OpenAI requirements
@@ -35,12 +20,14 @@ export type MessageParam = {
   tool_call_id?: string;
 };
 
+export type ToolsMap = Record<string, (args: any) => Promise<any> | any>;
+
 /**
- * Execute a function call from the OpenAI API
+ * Execute a function call requested by the model
  */
 export async function executeToolCall(
   toolCall: any,
-  toolsMap: Record<string, (args: any) => Promise<any> | any>
+  toolsMap: ToolsMap
 ) {
   const functionName = toolCall.function.name;
   const functionArgs = JSON.parse(toolCall.function.arguments);
@@ -58,64 +45,285 @@ export async function executeToolCall(
 }
 
 /**
- * Generate a response using the OpenAI API with tools
+ * A single tool call made by the model and what came of it, as stored on the reply
  */
-export async function generateToolResponse(
-  messages: MessageParam[],
-  tools: Tool[],
-  toolsMap: Record<string, (args: any) => Promise<any> | any>
-): Promise<string> {
+export type ToolInvocation = ToolCallRecord;
+
+export interface ToolLoopResult {
+  content: string;
+  invocations: ToolInvocation[];
+  steps: number;
+  hitStepLimit: boolean;
+}
+
+// How many rounds of tool calls the model may make before it has to answer
+export const MAX_TOOL_STEPS = parseInt(process.env.MAX_TOOL_STEPS || "6");
+
+export interface ToolLoopEvents {
+  onDelta?: (text: string) => void; // Reply text as the model streams it
+  onToolStarted?: (call: Pick<ToolInvocation, "id" | "name" | "args" | "step">) => void;
+  onInvocation?: (invocation: ToolInvocation) => void; // A tool call finished
+}
+
+/**
+ * Run one tool call, recording the outcome rather than throwing
+ */
+async function invokeTool(
+  toolCall: LLMToolCall,
+  toolsMap: ToolsMap,
+  step: number,
+  onStarted?: ToolLoopEvents["onToolStarted"]
+): Promise<ToolInvocation> {
+  const name = toolCall.function.name;
+  const invocation: ToolInvocation = { id: toolCall.id, name, args: {}, result: null, status: "error", step };
+
+  let argsError: string | null = null;
   try {
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: messages as any,
-      tools: tools as any,
-      tool_choice: "auto",
-    });
-
-    const responseMessage = response.choices[0].message;
-
-    // Check if the model wants to call a function
-    if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
-      const toolCall = responseMessage.tool_calls[0];
-      
-      // Execute the function call
-      const functionResult = await executeToolCall(toolCall, toolsMap);
-      
-      // Add the function call and result to the messages
-      messages.push({
-        role: "assistant",
-        content: responseMessage.content || "",
-      }); // Add the assistant's response with the function call
-      
-      // Add the function result as a new message
+    invocation.args = JSON.parse(toolCall.function.arguments || "{}");
+  } catch (error: any) {
+    argsError = `Invalid arguments for ${name}: ${error.message}`;
+  }
+
+  onStarted?.({ id: invocation.id, name, args: invocation.args, step });
+
+  if (argsError) {
+    invocation.result = { error: argsError };
+    return invocation;
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(toolsMap, name)) {
+    invocation.result = { error: `Tool ${name} is not available` };
+    return invocation;
+  }
+
+  try {
+    invocation.result = await toolsMap[name](invocation.args);
+    invocation.status = invocation.result?.status === "error" ? "error" : "success";
+  } catch (error: any) {
+    console.error(`Error executing function ${name}:`, error);
+    invocation.result = { error: `Failed to execute ${name}: ${error.message}` };
+  }
+  return invocation;
+}
+
+/**
+ * Let the model call tools until it answers in text or runs out of steps.
+ * Every tool call in a turn is executed in order and all of their results are
+ * fed back before the next turn. `messages` is extended in place.
+ */
+export async function runToolLoop(
+  messages: LLMMessage[],
+  tools: Tool[],
+  toolsMap: ToolsMap,
+  { maxSteps = MAX_TOOL_STEPS, onDelta, onToolStarted, onInvocation }: ToolLoopEvents & { maxSteps?: number } = {}
+): Promise<ToolLoopResult> {
+  const invocations: ToolInvocation[] = [];
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const completion = await llm.complete(messages, { tools, toolChoice: "auto", onDelta });
+    messages.push(completion.message);
+
+    if (completion.toolCalls.length === 0) {
+      return { content: completion.content || "", invocations, steps: step, hitStepLimit: false };
+    }
+
+    for (const toolCall of completion.toolCalls) {
+      const invocation = await invokeTool(toolCall, toolsMap, step, onToolStarted);
+      console.log(`[AI Service] Tool ${invocation.name} (step ${step}): ${invocation.status}`);
+      invocations.push(invocation);
+      onInvocation?.(invocation);
+
       messages.push({
         role: "tool",
-        content: JSON.stringify(functionResult),
         tool_call_id: toolCall.id,
+        name: invocation.name,
+        content: JSON.stringify(invocation.result ?? null),
       });
-      
-      // Get a new response from the model
-      return generateToolResponse(messages, tools, toolsMap);
     }
+  }
+
+  // Out of steps: ask for a reply about what was done without allowing more tools
+  console.warn(`[AI Service] Tool loop stopped after ${maxSteps} steps`);
+  const final = await llm.complete(messages, { tools, toolChoice: "none", onDelta });
+  return { content: final.content || "", invocations, steps: maxSteps, hitStepLimit: true };
+}
+
+/**
+ * Generate a response from the model with tools
+ */
+export async function generateToolResponse(
+  messages: MessageParam[],
+  tools: Tool[],
+  toolsMap: ToolsMap
+): Promise<string> {
+  try {
+    const { content } = await runToolLoop(messages as LLMMessage[], tools, toolsMap);
 
-    return responseMessage.content || "I couldn't generate a proper response.";
+    return content || "I couldn't generate a proper response.";
   } catch (error: any) {
-    console.error("Error calling OpenAI API:", error);
+    console.error(`Error calling ${llm.name} LLM provider:`, error);
     return `Sorry, I'm having trouble processing your request right now. Error: ${error.message}`;
   }
 }
 
+// Slides as the model should return them, derived from the slide insert schema
+export const generatedTestSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  description: z.string().default(""),
+  validation: z.string().min(1),
+  type: z.enum(["regex", "js", "dom", "unit"]),
+  file: z.string().optional(),
+}).superRefine((test, ctx) => {
+  if (test.type !== "regex") return;
+  try {
+    new RegExp(test.validation);
+  } catch (error: any) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["validation"], message: `Invalid regex: ${error.message}` });
+  }
+});
+
+export const generatedSlideSchema = insertSlideSchema
+  .omit({ lessonId: true, order: true })
+  .extend({
+    title: z.string().min(1),
+    content: z.string().min(1),
+    type: z.enum(["info", "challenge", "quiz"]),
+    tags: z.array(z.string()).default([]),
+    files: z.array(z.object({ name: z.string().min(1), content: z.string() })).optional(),
+    tests: z.array(generatedTestSchema).default([]),
+  })
+  .refine(slide => slide.type !== "challenge" || slide.tests.length > 0, {
+    message: "Challenge slides need at least one test",
+    path: ["tests"],
+  });
+
+export const generatedLessonSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().default(""),
+  language: z.string().min(1).default("javascript"),
+  estimatedTime: z.string().optional(),
+  slides: z.array(z.unknown()).min(1),
+});
+
+export type GeneratedSlide = z.infer<typeof generatedSlideSchema>;
+export type GeneratedLesson = Omit<z.infer<typeof generatedLessonSchema>, "slides"> & { slides: GeneratedSlide[] };
+
+// How many times to ask the model again for a lesson or slide that won't validate
+const MAX_GENERATION_ATTEMPTS = 2;
+
+const TEST_TYPE_ALIASES: Record<string, string> = {
+  javascript: "js",
+  mocha: "unit",
+  chai: "unit",
+  html: "dom",
+};
+
+/**
+ * Fix the common ways the model drifts from the slide format before validating
+ */
+export function repairSlide(raw: unknown): unknown {
+  if (!raw || typeof raw !== "object") return raw;
+  const slide: Record<string, any> = { ...(raw as Record<string, any>) };
+
+  // Optional text fields come back as null rather than being left out
+  ["initialCode", "filename", "cssContent", "jsContent"].forEach(key => {
+    if (slide[key] === null) delete slide[key];
+  });
+
+  if (typeof slide.tags === "string") {
+    slide.tags = slide.tags.split(",").map((tag: string) => tag.trim()).filter(Boolean);
+  } else if (!Array.isArray(slide.tags)) {
+    slide.tags = [];
+  }
+
+  if (!Array.isArray(slide.tests)) {
+    slide.tests = [];
+  }
+  slide.tests = slide.tests.map((test: any) => {
+    if (!test || typeof test !== "object") return test;
+    const repaired = { ...test };
+    const type = String(repaired.type || "").toLowerCase();
+    repaired.type = TEST_TYPE_ALIASES[type] || type;
+    if (!["regex", "js", "dom", "unit"].includes(repaired.type)) {
+      repaired.type = /\breturn\b/.test(repaired.validation || "") ? "js" : "regex";
+    }
+    // Regexes are sometimes written with JavaScript literal slashes
+    const literal = repaired.type === "regex" && /^\/(.+)\/[gimsuy]*$/.exec(repaired.validation || "");
+    if (literal) repaired.validation = literal[1];
+    if (repaired.description == null) repaired.description = "";
+    if (repaired.file === null) delete repaired.file;
+    return repaired;
+  });
+
+  const type = String(slide.type || "").toLowerCase();
+  slide.type = ["info", "challenge", "quiz"].includes(type)
+    ? type
+    : slide.tests.length > 0 ? "challenge" : "info";
+
+  return slide;
+}
+
+/**
+ * Validate a generated slide, repairing it locally and then by asking the model
+ * to correct it. Returns null if the slide still doesn't validate.
+ */
+export async function validateGeneratedSlide(raw: unknown, context: string): Promise<GeneratedSlide | null> {
+  let candidate = repairSlide(raw);
+
+  for (let attempt = 0; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const result = generatedSlideSchema.safeParse(candidate);
+    if (result.success) {
+      return {
+        ...result.data,
+        tests: result.data.tests.map(test => ({ ...test, id: test.id || uuidv4() })),
+      };
+    }
+    if (attempt === MAX_GENERATION_ATTEMPTS) break;
+
+    const problems = fromZodError(result.error).message;
+    console.warn(`[AI Service] Regenerating malformed slide: ${problems}`);
+
+    try {
+      const content = await llm.json([{
+        role: "user",
+        content: `${context}
+
+This slide from the lesson doesn't match the required format:
+${JSON.stringify(candidate, null, 2)}
+
+Problems: ${problems}
+
+Return the corrected slide as a JSON object with the same fields (title, content, type, tags, initialCode, filename, cssContent, jsContent, files, tests).`,
+      }]);
+      candidate = repairSlide(content ? JSON.parse(content) : candidate);
+    } catch (error: any) {
+      console.error("[AI Service] Error regenerating slide:", error);
+      break;
+    }
+  }
+
+  return null;
+}
+
+export interface GenerateLessonOptions {
+  description?: string;
+  style?: string;
+  outline?: LessonOutlineSlide[]; // Slides the lesson must have, in order
+  onSlideChecked?: (checked: number, total: number) => void; // Called as each slide is validated
+}
+
 /**
- * Generate a lesson using the OpenAI API
+ * Generate a lesson with the configured LLM provider. The response is validated against
+ * generatedLessonSchema; malformed slides are repaired or regenerated and
+ * dropped if they still can't be used.
  */
 export async function generateLesson(
   topic: string,
   difficulty: string = "beginner",
   format: string = "html",
-  description?: string,
-  style?: string
-) {
+  { description, style, outline, onSlideChecked }: GenerateLessonOptions = {}
+): Promise<GeneratedLesson> {
   try {
     const prompt = `Create an interactive coding lesson for teenagers about ${topic}.
     
@@ -123,7 +331,7 @@ Difficulty level: ${difficulty}
 Format: ${format}
 ${style ? `Style: ${style}` : ''}
 ${description ? `Description: ${description}` : ""}
-
+${outline ? `Slides (use exactly these, in this order):\n${outline.map((slide, i) => `${i + 1}. ${slide.title} (${slide.type})`).join("\n")}\n` : ""}
 The lesson should be engaging, informative, and include challenges that build upon the concepts taught.
 ${format === 'html' 
   ? 'For HTML format, each slide should include custom HTML content, and may also include CSS and JavaScript to create interactive elements.'
@@ -136,7 +344,7 @@ ${style === 'brown-markdown'
   ? '- Use an energetic, exciting tone with vibrant language\n- Focus on gamification elements and make learning feel like racing through concepts\n- Use playful analogies and high-energy explanations'
   : style === 'interaction-galore' 
   ? '- Create highly interactive content with many clickable elements\n- Design content that requires frequent user interaction\n- Include tabs, accordions, and interactive demonstrations wherever possible'
-  : style === 'practical-project'
+  : style === 'project-building'
   ? '- Structure content as a progressive project building exercise\n- Each slide should build upon previous slides\n- Focus on creating something tangible and seeing results incrementally'
   : ''}` : ''}
 
@@ -161,34 +369,62 @@ Format the response as a JSON object with the following structure:
           "id": "unique test id",
           "name": "Test name",
           "description": "What the test is checking",
-          "validation": "regex or js code to validate solution",
-          "type": "regex or js"
+          "validation": "regex, js code, dom check or describe/it suite (see below)",
+          "type": "regex or js or dom or unit"
         }
       ]
     }
   ]
-}`;
+}
+
+Every challenge slide needs at least one test. Test types:
+- "regex": a regular expression (without slashes) that must match the student's code
+- "js": a JavaScript function body receiving (code, consoleOutput) that returns true when the test passes
+- "dom": a JavaScript function body run inside the rendered page with document, $, $$, click(selector) and type(selector, text), returning true when the test passes
+- "unit": a Mocha/Chai-style describe/it suite using expect or assert that calls the student's functions`;
 
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: [{ role: "user", content: prompt }],
-      response_format: { type: "json_object" },
-    });
+    let lastError: Error | null = null;
+    for (let attempt = 0; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+      try {
+        const content = await llm.json([{ role: "user", content: prompt }]);
+        if (!content) {
+          throw new Error(`Empty response from ${llm.name} LLM provider`);
+        }
 
-    const content = response.choices[0].message.content;
-    if (!content) {
-      throw new Error("Empty response from OpenAI");
+        const lesson = generatedLessonSchema.parse(JSON.parse(content));
+        const context = `You are fixing a slide in a ${difficulty} lesson about ${topic} titled "${lesson.title}".`;
+
+        const slides: GeneratedSlide[] = [];
+        for (let i = 0; i < lesson.slides.length; i++) {
+          const slide = await validateGeneratedSlide(lesson.slides[i], context);
+          if (slide) slides.push(slide);
+          onSlideChecked?.(i + 1, lesson.slides.length);
+        }
+
+        if (slides.length === 0) {
+          throw new Error("No valid slides in response");
+        }
+
+        return { ...lesson, slides };
+      } catch (error: any) {
+        // API failures won't be fixed by asking again with the same prompt
+        if (error instanceof LLMProviderError) throw error;
+        lastError = error instanceof ZodError ? new Error(fromZodError(error).message) : error;
+        console.warn(`[AI Service] Lesson generation attempt ${attempt + 1} failed: ${lastError?.message}`);
+      }
     }
 
-    return JSON.parse(content);
+    throw lastError || new Error("Unable to generate a valid lesson");
   } catch (error: any) {
     console.error("Error generating lesson:", error);
+    // Kept as is so callers can tell an unavailable provider from a bad lesson
+    if (error instanceof LLMProviderError) throw error;
     throw new Error(`Failed to generate lesson: ${error.message}`);
   }
 }
 
 /**
- * Generate a chat response using the OpenAI API
+ * Generate a chat response with the configured LLM provider
  */
 export async function generateChatResponse(
   message: string,
@@ -223,12 +459,9 @@ Include code examples when relevant. Format code snippets with markdown syntax u
 
     const fullMessages = [systemMessage, ...chatHistory, { role: "user", content: message }];
 
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: fullMessages as any,
-    });
+    const response = await llm.chat(fullMessages as LLMMessage[]);
 
-    return response.choices[0].message.content || "I couldn't generate a proper response.";
+    return response || "I couldn't generate a proper response.";
   } catch (error: any) {
     console.error("Error generating chat response:", error);
     return `I'm having trouble responding right now. Error: ${error.message}`;
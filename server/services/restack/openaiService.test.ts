@@ -0,0 +1,83 @@
+/**
+ * Chat replies from restackOpenAIService against scripted replies from the
+ * mock LLM provider: a plain answer, and a lesson chat where the model calls
+ * a tool before answering.
+ *
+ * Run with `npm test`.
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { llm, MockProvider, type LLMFixture } from '../llm';
+import { storage } from '../../storage';
+import { restackOpenAIService } from './openaiService';
+
+assert.ok(llm instanceof MockProvider, 'Tests need the mock LLM provider; unset LLM_PROVIDER');
+const mock = llm;
+
+// Confident enough that the model's classification is used as is
+const chatIntent: LLMFixture = { mode: 'json', content: { intent: 'chat', confidence: 0.95 } };
+
+async function createOwnedLesson(username: string) {
+  const user = await storage.createUser({ username, password: 'unused' });
+  const lesson = await storage.createLesson({ title: 'Loops', description: 'Repeat yourself less.', userId: user.id });
+  await storage.createSlide({ lessonId: lesson.id, title: 'What is a Loop?', content: '# Loops', type: 'info', order: 0 });
+  const chat = await storage.createChat({ userId: user.id, lessonId: lesson.id, title: 'Chat for Loops' });
+  return { lesson, chat };
+}
+
+describe('restackOpenAIService.generateResponse', () => {
+  it('streams and stores a plain chat reply', async () => {
+    const user = await storage.createUser({ username: 'plain-chat', password: 'unused' });
+    const chat = await storage.createChat({ userId: user.id, title: 'New Chat' });
+    mock.setFixtures([chatIntent, { mode: 'chat', content: 'A variable is a named box for a value.' }]);
+
+    const deltas: string[] = [];
+    const response = await restackOpenAIService.generateResponse('What is a variable?', chat.id, undefined, {}, {
+      onDelta: delta => deltas.push(delta),
+    });
+
+    assert.equal(response.content, 'A variable is a named box for a value.');
+    assert.equal(deltas.join(''), response.content);
+    assert.deepEqual(response.toolInvocations, []);
+    assert.deepEqual(mock.requests.map(request => request.mode), ['json', 'chat']);
+
+    const stored = await storage.getMessagesByChatId(chat.id);
+    assert.deepEqual(stored.map(message => [message.role, message.content]), [
+      ['user', 'What is a variable?'],
+      ['assistant', 'A variable is a named box for a value.'],
+    ]);
+  });
+
+  it('runs the tools the model calls and answers with their results', async () => {
+    const { lesson, chat } = await createOwnedLesson('tool-loop');
+    mock.setFixtures([
+      chatIntent,
+      {
+        mode: 'tools',
+        toolCalls: [{
+          name: 'addSlide',
+          arguments: { lessonId: lesson.id, title: 'While Loops', content: '# While Loops', type: 'info' },
+        }],
+      },
+      { mode: 'tools', content: 'I added a slide about while loops.' },
+    ]);
+
+    const started: string[] = [];
+    const response = await restackOpenAIService.generateResponse('Add a slide about while loops', chat.id, lesson.id, {}, {
+      onToolStarted: call => started.push(call.name),
+    });
+
+    assert.equal(response.content, 'I added a slide about while loops.');
+    assert.deepEqual(started, ['addSlide']);
+    assert.deepEqual(response.toolInvocations.map(call => [call.name, call.status, call.step]), [['addSlide', 'success', 1]]);
+    assert.deepEqual(mock.requests.map(request => request.mode), ['json', 'tools', 'tools']);
+
+    // The tool result is fed back to the model before it answers
+    const toolResult = mock.requests[2].messages.find(message => message.role === 'tool');
+    assert.equal(toolResult?.name, 'addSlide');
+
+    const slides = await storage.getSlidesByLessonId(lesson.id);
+    assert.deepEqual(slides.map(slide => slide.title).sort(), ['What is a Loop?', 'While Loops']);
+    assert.deepEqual((await storage.getMessage(response.message.id))?.toolCalls?.map(call => call.name), ['addSlide']);
+  });
+});
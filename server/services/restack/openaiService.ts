@@ -1,62 +1,115 @@
-import OpenAI from 'openai';
 import { storage } from '../../storage';
+import type { ChatContext, LessonOutlineSlide, Message, MessageAction, Slide, SlideEdit } from '@shared/schema';
 import { tools, toolsMap } from './toolDefinitions';
 import { v4 as uuidv4 } from 'uuid';
-import { getLesson, getCurrentSlideContext } from '../tools/lessonTools';
+import { z, ZodError } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { getLesson, getCurrentSlideContext, updateLesson } from '../tools/lessonTools';
+import { proposeSlideUpdate } from '../tools/slideTools';
+import { proposeSlideEdit } from '../slideEdits';
+import { canEditLesson } from '../../auth';
+import { generateLesson as generateLessonContent, runToolLoop, type GeneratedLesson, type ToolInvocation, type ToolLoopEvents, type ToolsMap } from '../openai';
+import { llm, LLMProviderError, type LLMMessage } from '../llm';
+import { lessonJobs, type LessonJobProgress } from '../lessonJobs';
+import { classifyIntent, type IntentContext } from '../intent';
+import { LESSON_STYLES, amendOutline, createProposal, formatProposal } from '../lessonProposal';
 
-// Initialize OpenAI client with API key
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!
+// Longest stretch of the user's code included in a prompt
+const MAX_PROMPT_CODE = 8000;
+
+// Tools that change the lesson, left out for lessons the chat's owner can't edit
+const EDITING_TOOLS = ['addSlide', 'updateLesson', 'updateSlide'];
+
+// Reply to an edit request for a lesson the chat's owner can't change
+const SHARED_LESSON_REPLY = "This is a shared sample lesson, so its slides can't be changed. Ask me anything about it, or create your own lesson to edit!";
+
+// Slide changes the model proposes for an edit request
+const slideChangesSchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  content: z.string().min(1).optional(),
+  cssContent: z.string().optional(),
+  jsContent: z.string().optional(),
+  tests: z.array(z.object({
+    id: z.string().optional(),
+    name: z.string(),
+    description: z.string(),
+    validation: z.string(),
+    type: z.enum(['regex', 'js', 'dom', 'unit']),
+    file: z.string().optional(),
+  })).optional(),
 });
 
+export interface ChatResponse {
+  content: string;
+  toolInvocations: ToolInvocation[];
+  message: Message; // The stored assistant message
+}
+
 class RestackOpenAIService {
   // Track processed messages to avoid duplicates
   private processedMessages: Set<string> = new Set();
 
   /**
-   * Generate a new lesson based on a topic and difficulty
+   * Generate a new lesson based on a topic and difficulty, following `outline`
+   * when given and reporting progress slide by slide to `onProgress`
    */
   async generateLesson(
     topic: string,
     difficulty: string = 'beginner',
     format: string = 'html',
-    style?: string
+    { style, userId, outline, onProgress }: {
+      style?: string;
+      userId?: number;
+      outline?: LessonOutlineSlide[];
+      onProgress?: (progress: LessonJobProgress) => void;
+    } = {}
   ) {
     try {
       console.log(`[AI Service] Generating lesson about "${topic}" with difficulty "${difficulty}" and style "${style || 'default'}"`);
       
-      // Create basic lesson structure
-      const language = this.detectLanguageFromTopic(topic);
-      const title = this.generateTitle(topic, difficulty, style);
+      // Ask the model for the lesson; the placeholder slides are only used when it is unavailable
+      let generated: GeneratedLesson | null = null;
+      try {
+        generated = await generateLessonContent(topic, difficulty, format, {
+          style,
+          outline,
+          onSlideChecked: (checked, total) => {
+            onProgress?.({ message: `Checking slide ${checked} of ${total}`, completedSlides: checked, totalSlides: total });
+          },
+        });
+      } catch (error: any) {
+        if (!(error instanceof LLMProviderError)) throw error;
+        console.warn(`[AI Service] Model unavailable, using placeholder slides: ${error.message}`);
+      }
+      
+      const language = generated?.language || this.detectLanguageFromTopic(topic);
+      const title = generated?.title || this.generateTitle(topic, difficulty, style);
       
       console.log(`[AI Service] Using language: ${language}, title: ${title}, style: ${style || 'default'}`);
       
       // Insert the new lesson
       const lesson = await storage.createLesson({
         title,
-        description: `Learn about ${topic} with this ${difficulty} level lesson.`,
+        description: generated?.description || `Learn about ${topic} with this ${difficulty} level lesson.`,
         language,
         difficulty: difficulty as any,
         format: format, // Use the provided format parameter
-        estimatedTime: '15 minutes'
+        estimatedTime: generated?.estimatedTime || '15 minutes',
+        userId
       });
       
       // Generate slides for the lesson
-      const slides = this.generateSlidesForTopic(topic, language, difficulty);
+      const slides = generated ? generated.slides : this.generateSlidesForTopic(topic, language, difficulty);
       
       // Create slides for the lesson
+      onProgress?.({ message: 'Saving the lesson', completedSlides: slides.length, totalSlides: slides.length });
       for (let i = 0; i < slides.length; i++) {
         const slide = slides[i];
         await storage.createSlide({
+          ...slide,
           lessonId: lesson.id,
-          title: slide.title,
-          content: slide.content,
           type: slide.type as any,
-          order: i,
-          tags: slide.tags,
-          initialCode: slide.initialCode,
-          filename: slide.filename,
-          tests: slide.tests
+          order: i
         });
       }
       
@@ -68,510 +121,341 @@ class RestackOpenAIService {
   }
 
   /**
-   * Generate a response to a user message
+   * Generate a response to a user message. `context` is what the user has on
+   * screen (slide, code and test results), which edits target by default.
+   * Model replies and tool calls are reported through `events` as they
+   * happen, for streaming to the client.
    */
   async generateResponse(
     message: string,
     chatId: number,
-    lessonId?: number
-  ): Promise<string> {
+    lessonId?: number,
+    context: ChatContext = {},
+    events: ToolLoopEvents = {}
+  ): Promise<ChatResponse> {
+    let response = '';
+    let toolInvocations: ToolInvocation[] = [];
+    let actions: MessageAction[] = [];
+    
     try {
       // Get chat history
-      let chatHistory: any[] = [];
-      if (chatId) {
-        const messages = await storage.getMessagesByChatId(chatId);
-        chatHistory = messages.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        }));
-      }
+      const history = chatId ? await storage.getMessagesByChatId(chatId) : [];
+      const chatHistory: LLMMessage[] = history.map(msg => ({
+        role: msg.role as LLMMessage['role'],
+        content: msg.content
+      }));
       
-      let response = '';
+      // The lesson this chat is proposing, while it still waits for its style
+      const chat = await storage.getChat(chatId);
+      const proposal = chat?.lessonProposal?.stage === 'proposed' ? chat.lessonProposal : undefined;
+      // Only the lesson's owner can change it; shared samples are read-only
+      const lesson = lessonId ? await storage.getLesson(lessonId) : undefined;
+      const canEdit = !!lesson && chat?.userId != null && canEditLesson(lesson, chat.userId);
+      // The slide on the user's screen, if it belongs to this chat's lesson
+      const lessonSlides = lessonId ? (await storage.getSlidesByLessonId(lessonId)).sort((a, b) => a.order - b.order) : [];
+      const activeSlide = context.slideId != null ? lessonSlides.find(slide => slide.id === context.slideId) : undefined;
       
-      console.log('[AI Service] Processing message:', message);
-      console.log('[AI Service] Is new lesson request?', this.isNewLessonRequest(message));
+      const intentContext: IntentContext = {
+        lessonId,
+        slideCount: lessonId ? lessonSlides.length : undefined,
+        pendingStyleChoice: proposal && {
+          topic: proposal.topic,
+          difficulty: proposal.difficulty,
+          outline: proposal.outline,
+          options: LESSON_STYLES,
+        },
+      };
+      
+      const intent = await classifyIntent(message, intentContext);
+      console.log(`[AI Service] Classified message as ${intent.intent} (${intent.source}, confidence ${intent.confidence})`);
       
       // Check if this is a request to create a new lesson
-      if (this.isNewLessonRequest(message)) {
-        // Extract topic and difficulty from message
-        const topic = this.extractTopicFromMessage(message);
-        const difficulty = this.extractDifficultyFromMessage(message);
-        
-        // First step: Present a lesson proposal with style options
+      if (intent.intent === 'create_lesson' && !intent.topic) {
+        response = "I'd love to make a lesson for you! What should it be about?";
+      }
+      else if (intent.intent === 'create_lesson') {
+        const topic = intent.topic!;
+        const difficulty = intent.difficulty || 'beginner';
         console.log(`[AI Service] New lesson request detected for topic: ${topic}, difficulty: ${difficulty}`);
         
-        // Generate a styled lesson proposal with style options
-        response = `
-# 🐯 Lesson Proposal: Learning ${topic} - ${difficulty.charAt(0).toUpperCase() + difficulty.slice(1)} Level
-
-I'd be happy to create a lesson about **${topic}** for you! Here's what I'm thinking:
-
-## 📚 Lesson Details:
-- **Topic:** ${topic}
-- **Difficulty:** ${difficulty}
-- **Format:** HTML with interactive elements
-- **Estimated Time:** 30-45 minutes
-
-## 🧩 What You'll Learn:
-- Core concepts of ${topic}
-- Practical implementation techniques
-- Best practices and common pitfalls
-- Hands-on coding challenges
-
-## 📝 Proposed Slides:
-1. Introduction to ${topic}
-2. Core Concepts Explained
-3. Example Code & Demonstration
-4. Interactive Challenge
-5. Common Patterns & Use Cases
-6. Quiz: Test Your Knowledge
-
-## 🎨 Choose a Style:
-Please select a visual style for your lesson:
-
-1. Brown Markdown 🏖️ - A relaxed, earthy style with tan/beige/brown colors
-2. Neon Racer 🏎️ - A vibrant, high-energy style with neon colors and animations
-3. Interaction Galore 💃🏽 - A style focused on interactive elements with plenty of clickable components
-4. Practical Project Building 🚀 - A style focused on progressive learning with each slide building on the previous
-
-Just reply with which style you prefer!
-`;
+        // First step: Present a lesson proposal with style options, remembered until a style is chosen
+        const newProposal = createProposal(topic, difficulty);
+        await storage.updateChat(chatId, { lessonProposal: newProposal });
+        
+        response = formatProposal(newProposal);
+        actions = [{ kind: 'choose_style', topic, difficulty, options: LESSON_STYLES }];
+      }
+      // Change the proposed slides before anything is generated
+      else if (intent.intent === 'amend_outline' && proposal) {
+        const outline = await amendOutline(proposal, message);
+        if (outline) {
+          const amended = { ...proposal, outline };
+          await storage.updateChat(chatId, { lessonProposal: amended });
+          response = formatProposal(amended, true);
+        } else {
+          response = `I couldn't work out how to change the slides. Try something like "drop slide 5, add one on closures", or pick a style to start with the current plan.`;
+        }
+        actions = [{ kind: 'choose_style', topic: proposal.topic, difficulty: proposal.difficulty, options: LESSON_STYLES }];
       }
-      // Handle style selection for a lesson
-      else if (this.isStyleSelectionMessage(message)) {
-        // Extract topic, difficulty and style from message
-        const topic = this.extractTopicFromMessage(message);
-        const difficulty = this.extractDifficultyFromMessage(message);
-        const style = this.extractLessonStyle(message);
+      // Handle style selection for the proposed lesson
+      else if (intent.intent === 'choose_style' && proposal) {
+        const { topic, outline } = proposal;
+        const difficulty = intent.difficulty || proposal.difficulty;
         
-        if (style && topic) {
-          try {
-            console.log(`[AI Service] Style selected: ${style} for topic: ${topic}`);
-            
-            // Generate a new lesson in HTML format by default with the specified style
-            const lesson = await this.generateLesson(topic, difficulty, 'html', style);
-            
-            // Format response with lesson details and ID for redirect
-            let styleDisplayName = '';
-            switch (style) {
-              case 'brown-markdown': styleDisplayName = 'Brown Markdown 🏖️'; break;
-              case 'neon-racer': styleDisplayName = 'Neon Racer 🏎️'; break;
-              case 'interaction-galore': styleDisplayName = 'Interaction Galore 💃🏽'; break;
-              case 'project-building': styleDisplayName = 'Practical Project Building 🚀'; break;
-              default: styleDisplayName = style;
-            }
-            
-            response = `Great choice! I'll use the "${styleDisplayName}" style for this lesson.
-
-I'm generating your lesson about "${topic}" now. This will take a few moments. You'll see the new lesson appear in your list when it's ready!
-
-__LESSON_CREATED__:${lesson.id}:${lesson.title}`;
-          } catch (error: any) {
-            console.error('Error creating new lesson:', error);
-            response = `I'm sorry, I couldn't create a lesson about ${topic}. Error: ${error.message}`;
+        // Left to us, the first style is a safe default for any topic
+        const style = intent.style || LESSON_STYLES[0].id;
+        
+        try {
+          console.log(`[AI Service] Style selected: ${style} for topic: ${topic}`);
+          if (!chat?.userId) {
+            throw new Error('This chat has no owner to create the lesson for');
           }
-        } else {
-          response = "I'm not sure which style you'd like to use. Could you please select one of the style options I presented?";
+          await storage.updateChat(chatId, { lessonProposal: { ...proposal, difficulty, stage: 'style_chosen', style } });
+          
+          // Queue the lesson for generation in HTML format by default with the specified style,
+          // owned by whoever owns this chat; the job moves the proposal on when it finishes
+          const job = lessonJobs.enqueue(chat.userId, { topic, difficulty, format: 'html', style, outline }, chatId);
+          await storage.updateChat(chatId, { lessonProposal: { ...proposal, difficulty, stage: 'generating', style, jobId: job.id } });
+          
+          // The client follows the job's progress and opens the lesson when it is ready
+          const styleOption = LESSON_STYLES.find(option => option.id === style);
+          const styleDisplayName = styleOption ? `${styleOption.name} ${styleOption.emoji}` : style;
+          
+          response = `Great choice! I'll use the "${styleDisplayName}" style for this lesson.
+
+I'm generating your lesson about "${topic}" now. This will take a few moments, and I'll open it for you as soon as it's ready!`;
+          actions = [{ kind: 'lesson_job', jobId: job.id }];
+        } catch (error: any) {
+          console.error('Error creating new lesson:', error);
+          response = `I'm sorry, I couldn't create a lesson about ${topic}. Error: ${error.message}`;
         }
       }
       // Check if this is a request to edit a slide
-      else if (lessonId && this.isSlideEditRequest(message)) {
-        response = await this.handleSlideEditRequest(message, lessonId);
+      else if (intent.intent === 'edit_slide' && lessonId && !canEdit) {
+        response = SHARED_LESSON_REPLY;
+      }
+      else if (intent.intent === 'edit_slide' && lessonId) {
+        const edit = await this.handleSlideEditRequest(message, lessonId, chatId, intent.targetSlide, activeSlide);
+        response = edit.response;
+        actions = edit.actions;
       }
       // Use OpenAI function calling for other responses when in a lesson context
       else if (lessonId) {
-        // Declare completion variable outside the try-catch block so it's accessible later
-        let completion: any;
+        let systemContent = "You are Mumu, a friendly coding tutor for teenagers. You assist with coding lessons.";
         
         // First, get the current lesson and slide context to provide as context
         try {
           // Get detailed lesson information
           const lessonDetails = await getLesson({ lessonId });
           
-          // Get current slide context based on chat history
-          const slideContext = await getCurrentSlideContext({ lessonId, chatId });
+          // The slide on screen, or the one the chat history points at
+          const slideContext = await getCurrentSlideContext({ lessonId, chatId, slideId: activeSlide?.id });
+          const currentSlide = slideContext.currentSlide;
           
           // Build a detailed context message for the AI
           const contextMessage = `
 You are currently helping with the lesson "${lessonDetails.title}" (ID: ${lessonId}), which is a ${lessonDetails.difficulty} level lesson about ${lessonDetails.language}.
 
-The current slide appears to be "${slideContext.currentSlide.title}" (ID: ${slideContext.currentSlide.id}, type: ${slideContext.currentSlide.type}).
+${activeSlide ? 'The user is viewing' : 'The current slide appears to be'} "${currentSlide.title}" (ID: ${currentSlide.id}, type: ${currentSlide.type}). Unless they name another slide, "this slide" means this one.
+${this.describeWork(context)}
 
 The lesson contains ${lessonDetails.slides.length} slides in total:
 ${lessonDetails.slides.map((slide: any, index: number) => `${index + 1}. ${slide.title} (${slide.type})`).join('\n')}
 
 You have access to tools that allow you to:
 - Get lesson and slide information
-- Update existing slides
+- Propose changes to existing slides, which the user reviews as a diff and accepts or rejects
 - Add new slides to the lesson
 - Analyze the current context
 
-When the user asks for changes to the lesson or requests new content, use these tools to fulfill their request. Always confirm what actions you've taken.
+When the user asks for changes to the lesson or requests new content, use these tools to fulfill their request. A request may need several tools; keep calling them until all of it is done. Always confirm what actions you've taken, and say that slide changes will be applied once the user accepts them.
 `;
 
           console.log('[AI Service] Using lesson context for response generation');
-          
-          // Convert our tools to OpenAI tool format
-          const openaiTools = tools.map(tool => ({
-            type: 'function' as const,
-            function: {
-              name: tool.function.name,
-              description: tool.function.description,
-              parameters: tool.function.parameters
-            }
-          }));
-          
-          // Make the initial API call with tools and enhanced context
-          completion = await openai.chat.completions.create({
-            model: "gpt-4o",
-            messages: [
-              {
-                role: "system",
-                content: `You are Mumu, a friendly coding tutor for teenagers. You assist with coding lessons.\n\n${contextMessage}`
-              },
-              ...chatHistory,
-              { role: "user", content: message }
-            ],
-            tools: openaiTools
-          });
+          systemContent += `\n\n${contextMessage}`;
+          if (!canEdit) {
+            systemContent += `\nThis is a shared sample lesson, so you can't change it. If the user asks for changes, explain that and suggest they create their own lesson.`;
+          }
         } catch (error) {
+          // Fall back to basic context if we can't get the lesson details
           console.error('[AI Service] Error getting lesson context:', error);
-          
-          // Fallback to basic context if we can't get the lesson details
-          const openaiTools = tools.map(tool => ({
-            type: 'function' as const,
-            function: {
-              name: tool.function.name,
-              description: tool.function.description,
-              parameters: tool.function.parameters
-            }
-          }));
-          
-          // Make the initial API call with tools but minimal context
-          completion = await openai.chat.completions.create({
-            model: "gpt-4o",
-            messages: [
-              {
-                role: "system",
-                content: "You are Mumu, a friendly coding tutor for teenagers. You assist with coding lessons."
-              },
-              ...chatHistory,
-              { role: "user", content: message }
-            ],
-            tools: openaiTools
-          });
         }
         
-        const responseMessage = completion.choices[0].message;
+        // Slide updates the model asks for are collected and shown to the user rather than applied
+        const proposedEdits: SlideEdit[] = [];
         
-        // Check if the model wants to call a function
-        if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
-          const toolCall = responseMessage.tool_calls[0];
-          const functionName = toolCall.function.name;
-          const functionArgs = JSON.parse(toolCall.function.arguments);
-          
-          // Execute the function if it exists in our toolsMap
-          if (Object.prototype.hasOwnProperty.call(toolsMap, functionName)) {
-            try {
-              // Cast toolsMap to any for type safety
-              const functionToCall = (toolsMap as any)[functionName];
-              const functionResult = await functionToCall(functionArgs);
-              
-              // Make a follow-up call with the function result
-              const secondCompletion = await openai.chat.completions.create({
-                model: "gpt-4o",
-                messages: [
-                  {
-                    role: "system",
-                    content: "You are Mumu, a friendly coding tutor for teenagers. You assist with coding lessons."
-                  },
-                  ...chatHistory,
-                  { role: "user", content: message },
-                  responseMessage,
-                  {
-                    role: "tool",
-                    tool_call_id: toolCall.id,
-                    name: functionName,
-                    content: JSON.stringify(functionResult)
-                  }
-                ]
-              });
-              
-              response = secondCompletion.choices[0].message.content || "I'm not sure how to respond to that.";
-            } catch (error: any) {
-              console.error(`Error executing function ${functionName}:`, error);
-              response = `I tried to help with that, but encountered an error: ${error.message}`;
-            }
-          } else {
-            response = `I wanted to use the ${functionName} tool, but it's not available.`;
+        // Convert our tools to the provider's tool format
+        const llmTools = tools.filter(tool => canEdit || !EDITING_TOOLS.includes(tool.function.name)).map(tool => ({
+          type: 'function' as const,
+          function: {
+            name: tool.function.name,
+            description: tool.function.description,
+            parameters: tool.function.parameters
           }
-        } else {
-          // If no function call was made, use the original response
-          response = responseMessage.content || "I'm not sure how to respond to that.";
-        }
+        }));
+        
+        // Let the model call as many tools as the request needs
+        const result = await runToolLoop([
+          { role: "system", content: systemContent },
+          ...chatHistory,
+          { role: "user", content: message }
+        ], llmTools, this.toolsFor(lessonId, chatId, activeSlide, proposedEdits, canEdit), events);
+        
+        toolInvocations = result.invocations;
+        actions = proposedEdits.map(edit => ({ kind: 'slide_edit', edit }));
+        response = result.content || (proposedEdits.length > 0
+          ? `Here ${proposedEdits.length === 1 ? 'is the change' : 'are the changes'} I'd make. Accept to apply ${proposedEdits.length === 1 ? 'it' : 'them'} to the lesson.`
+          : toolInvocations.length > 0
+            ? `Done! I made ${toolInvocations.length} change${toolInvocations.length === 1 ? '' : 's'} to the lesson.`
+            : "I'm not sure how to respond to that.");
       }
       // Default chat response for general inquiries
       else {
-        const completion = await openai.chat.completions.create({
-          model: "gpt-4o",
-          messages: [
-            {
-              role: "system",
-              content: "You are Mumu, a friendly coding tutor for teenagers. You're enthusiastic, encouraging, and patient. You explain programming concepts in simple, accessible ways with relevant examples. Your goal is to make learning to code fun and engaging."
-            },
-            ...chatHistory,
-            { role: "user", content: message }
-          ],
-        });
+        const reply = await llm.chat([
+          {
+            role: "system",
+            content: "You are Mumu, a friendly coding tutor for teenagers. You're enthusiastic, encouraging, and patient. You explain programming concepts in simple, accessible ways with relevant examples. Your goal is to make learning to code fun and engaging."
+          },
+          ...chatHistory,
+          { role: "user", content: message }
+        ], { onDelta: events.onDelta });
         
-        response = completion.choices[0].message.content || "I'm not sure how to respond to that.";
+        response = reply || "I'm not sure how to respond to that.";
       }
-      
-      // Store the message from the user
-      await storage.createMessage({
-        chatId,
-        role: 'user',
-        content: message
-      });
-      
-      // Store the response from the assistant
-      await storage.createMessage({
-        chatId,
-        role: 'assistant',
-        content: response
-      });
-      
-      return response;
     } catch (error: any) {
       console.error('Error generating response:', error);
-      return `I'm having trouble responding right now. Error: ${error.message}`;
-    }
-  }
-
-  private isSlideEditRequest(message: string): boolean {
-    const editPatterns = [
-      /edit slide/i,
-      /update slide/i,
-      /change slide/i,
-      /modify slide/i,
-      /improve slide/i
-    ];
-    return editPatterns.some(pattern => pattern.test(message));
-  }
-
-  private isNewLessonRequest(message: string): boolean {
-    // First check if it's a style selection message - if so, it's not a new lesson request
-    if (this.isStyleSelectionMessagePattern(message)) {
-      return false;
-    }
-    
-    const createPatterns = [
-      /create (a|new|an?)? (Brown Markdown 🏖️|Interaction Galore 💃🏽|Practical Project Building 🚀|Neon Racer 🏎️)? ?lesson/i,
-      /make (a|new)? (Brown Markdown 🏖️|Interaction Galore 💃🏽|Practical Project Building 🚀|Neon Racer 🏎️)? ?lesson/i,
-      /generate (a|new)? (Brown Markdown 🏖️|Interaction Galore 💃🏽|Practical Project Building 🚀|Neon Racer 🏎️)? ?lesson/i,
-      /teach me (about|how to)/i,
-      /create (a|an)? (Brown Markdown 🏖️|Interaction Galore 💃🏽|Practical Project Building 🚀|Neon Racer 🏎️)? ?tutorial/i,
-      /build (a|an)? (Brown Markdown 🏖️|Interaction Galore 💃🏽|Practical Project Building 🚀|Neon Racer 🏎️)? ?lesson/i,
-      /new (Brown Markdown 🏖️|Interaction Galore 💃🏽|Practical Project Building 🚀|Neon Racer 🏎️)? ?lesson/i,
-      /(Brown Markdown 🏖️|Interaction Galore 💃🏽|Practical Project Building 🚀|Neon Racer 🏎️)? ?lesson (about|on)/i,
-      /can you (make|create) a (Brown Markdown 🏖️|Interaction Galore 💃🏽|Practical Project Building 🚀|Neon Racer 🏎️)? ?/i,
-      /create a (Brown Markdown 🏖️|Interaction Galore 💃🏽|Practical Project Building 🚀|Neon Racer 🏎️)? ?tutorial/i
-    ];
-    return createPatterns.some(pattern => pattern.test(message));
-  }
-  
-  // Helper method to detect style selection patterns
-  private isStyleSelectionMessagePattern(message: string): boolean {
-    // Check for explicit style selection patterns
-    const stylePatterns = [
-      /use the (Brown Markdown 🏖️|Interaction Galore 💃🏽|Practical Project Building 🚀|Neon Racer 🏎️) style/i,
-      /you decide the best style/i,
-      /pick the .* style/i,
-      /choose the .* style/i,
-      /select style/i,
-      /prefer the .* style/i
-    ];
-    return stylePatterns.some(pattern => pattern.test(message));
-  }
-  
-  private isStyleSelectionMessage(message: string): boolean {
-    // First check for explicit style selection patterns
-    if (this.isStyleSelectionMessagePattern(message)) {
-      return true;
+      response = `I'm having trouble responding right now. Error: ${error.message}`;
     }
     
-    // Check if it's a style selection message
-    const lowerMsg = message.toLowerCase();
+    // Store the message from the user
+    await storage.createMessage({
+      chatId,
+      role: 'user',
+      content: message
+    });
     
-    // Check if it mentions style selection explicitly
-    if (lowerMsg.includes('style') || lowerMsg.includes('option') || lowerMsg.includes('choose')) {
-      return true;
-    }
-    
-    // Check for numeric selection
-    if (lowerMsg.match(/\b[1-4]\b/) && !this.isNewLessonRequest(message)) {
-      return true;
-    }
-    
-    // Check for style names
-    if ((lowerMsg.includes('brown') || lowerMsg.includes('markdown') || 
-         lowerMsg.includes('neon') || lowerMsg.includes('racer') ||
-         lowerMsg.includes('interaction') || lowerMsg.includes('galore') ||
-         lowerMsg.includes('practical') || lowerMsg.includes('project')) && 
-        !this.isNewLessonRequest(message)) {
-      return true;
-    }
-    
-    // Check for "use the ... style" pattern which is now used by our buttons
-    if (lowerMsg.includes('use the') && lowerMsg.includes('style for the lesson about')) {
-      return true;
-    }
+    // Store the response from the assistant along with any tools it used
+    const reply = await storage.createMessage({
+      chatId,
+      role: 'assistant',
+      content: response,
+      toolCalls: toolInvocations,
+      actions
+    });
     
-    return false;
-  }
-  
-  private extractLessonStyle(message: string): string | undefined {
-    const messageLower = message.toLowerCase();
-    
-    // Check for emoji style names first
-    const stylePatterns = [
-      { pattern: /Brown Markdown 🏖️/i, style: 'brown-markdown' },
-      { pattern: /Interaction Galore 💃🏽/i, style: 'interaction-galore' },
-      { pattern: /Practical Project Building 🚀/i, style: 'project-building' },
-      { pattern: /Neon Racer 🏎️/i, style: 'neon-racer' }
-    ];
-    
-    for (const { pattern, style } of stylePatterns) {
-      if (pattern.test(message)) {
-        return style;
-      }
-    }
-    
-    // Check for style names without emojis
-    if (messageLower.includes('brown') || messageLower.includes('markdown') || messageLower.includes('earthy')) {
-      return 'brown-markdown';
-    } else if (messageLower.includes('neon') || messageLower.includes('racer') || messageLower.includes('vibrant')) {
-      return 'neon-racer';
-    } else if (messageLower.includes('interaction') || messageLower.includes('galore')) {
-      return 'interaction-galore';
-    } else if (messageLower.includes('practical') || messageLower.includes('project') || messageLower.includes('progressive')) {
-      return 'project-building';
-    }
-    
-    // Check for numeric selection
-    if (messageLower.includes('1') || messageLower.includes('first') || messageLower.includes('option 1')) {
-      return 'brown-markdown';
-    } else if (messageLower.includes('2') || messageLower.includes('second') || messageLower.includes('option 2')) {
-      return 'neon-racer';
-    } else if (messageLower.includes('3') || messageLower.includes('third') || messageLower.includes('option 3')) {
-      return 'interaction-galore';
-    } else if (messageLower.includes('4') || messageLower.includes('fourth') || messageLower.includes('option 4')) {
-      return 'project-building';
-    }
-    
-    return undefined;
+    return { content: response, toolInvocations, message: reply };
   }
 
-  private extractTopicFromMessage(message: string): string {
-    const topicPatterns = [
-      /about\s+([^,\.?!]+)/i,
-      /on\s+([^,\.?!]+)/i,
-      /for\s+([^,\.?!]+)/i,
-      /covering\s+([^,\.?!]+)/i,
-      /teach me\s+([^,\.?!]+)/i,
-      /lesson (?:about|on) ([^,\.?!]+)/i,
-      /create (?:a |an )?(?:new )?lesson (?:about|on|for) ([^,\.?!]+)/i,
-      /make (?:a |an )?(?:new )?lesson (?:about|on|for) ([^,\.?!]+)/i,
-      /generate (?:a |an )?(?:new )?lesson (?:about|on|for) ([^,\.?!]+)/i,
-      /tutorial (?:about|on|for) ([^,\.?!]+)/i
-    ];
-    
-    // Look for patterns in the message
-    for (const pattern of topicPatterns) {
-      const match = message.match(pattern);
-      if (match && match[1]) {
-        return match[1].trim();
-      }
-    }
-    
-    // If no match found with specific patterns, try to extract a subject from the message
-    // by finding a potential programming related term
-    const programmingTerms = [
-      "javascript", "python", "java", "c\\+\\+", "html", "css", 
-      "react", "node", "express", "vue", "angular", "typescript",
-      "arrays", "functions", "loops", "objects", "classes", 
-      "variables", "data structures", "algorithms", "web development"
-    ];
-    
-    const termsRegex = new RegExp(`\\b(${programmingTerms.join("|")})\\b`, "i");
-    const termMatch = message.match(termsRegex);
-    
-    if (termMatch && termMatch[1]) {
-      return termMatch[1].trim();
-    }
-    
-    // Default to a generic topic if no specific one is found
-    return "programming basics";
+  /**
+   * The tools, pinned to this chat's lesson whatever lessonId the model asks
+   * for, with the slide tools defaulting to the slide the user is viewing.
+   * Slide updates are added to `proposedEdits` instead of being applied.
+   * Without `canEdit` only the tools that read the lesson are available.
+   */
+  private toolsFor(lessonId: number, chatId: number, activeSlide: Slide | undefined, proposedEdits: SlideEdit[], canEdit: boolean): ToolsMap {
+    const inLesson = (args: Record<string, any>) => ({ ...args, lessonId });
+    const withDefaults = (args: Record<string, any>) => ({ ...inLesson(args), slideId: args.slideId ?? activeSlide?.id });
+    const all: ToolsMap = {
+      getLesson: (args: Record<string, any>) => toolsMap.getLesson(inLesson(args)),
+      getSlides: (args: Record<string, any>) => toolsMap.getSlides(inLesson(args)),
+      addSlide: (args: Record<string, any>) => toolsMap.addSlide(inLesson(args)),
+      getCurrentSlideContext: (args: Record<string, any>) => toolsMap.getCurrentSlideContext({ ...withDefaults(args), chatId }),
+      getSlide: (args: Record<string, any>) => toolsMap.getSlide(withDefaults(args)),
+      updateLesson: (args: Record<string, any>) => updateLesson(inLesson(args) as Parameters<typeof updateLesson>[0], { kind: 'assistant', tool: 'updateLesson', chatId }),
+      updateSlide: async (args: Record<string, any>) => {
+        const edit = await proposeSlideUpdate(withDefaults(args) as Parameters<typeof proposeSlideUpdate>[0]);
+        if (!edit) {
+          return { proposed: false, message: 'The slide already looks like this, so there is nothing to change' };
+        }
+        proposedEdits.push(edit);
+        return { proposed: true, slideId: edit.slideId, changedFields: Object.keys(edit.after), message: 'Shown to the user, who will accept or reject it' };
+      },
+    };
+    return canEdit ? all : Object.fromEntries(Object.entries(all).filter(([name]) => !EDITING_TOOLS.includes(name)));
   }
 
-  private extractDifficultyFromMessage(message: string): string {
-    if (/beginner/i.test(message) || /basic/i.test(message) || /simple/i.test(message)) {
-      return "beginner";
-    } else if (/intermediate/i.test(message) || /medium/i.test(message)) {
-      return "intermediate";
-    } else if (/advanced/i.test(message) || /expert/i.test(message) || /difficult/i.test(message)) {
-      return "advanced";
+  /** The user's code and latest test run, as lines for the system prompt */
+  private describeWork({ code, testResults }: ChatContext): string {
+    const lines: string[] = [];
+    if (code?.trim()) {
+      const shown = code.length > MAX_PROMPT_CODE ? `${code.slice(0, MAX_PROMPT_CODE)}\n... (truncated)` : code;
+      lines.push(`Their code editor currently contains:\n\`\`\`\n${shown}\n\`\`\``);
     }
-    
-    // Default to beginner if no difficulty specified
-    return "beginner";
+    if (testResults?.length) {
+      const passed = testResults.filter(result => result.passed).length;
+      const failures = testResults
+        .filter(result => !result.passed)
+        .map(result => `- ${result.name}${result.message ? `: ${result.message}` : ''}`);
+      lines.push(`Their last test run passed ${passed} of ${testResults.length} tests.${failures.length ? `\nFailing:\n${failures.join('\n')}` : ''}`);
+    }
+    return lines.join('\n\n');
   }
 
-  private async handleSlideEditRequest(message: string, lessonId: number): Promise<string> {
+  /**
+   * Ask the model for changes to one slide and propose them as an edit the user
+   * can accept or reject; nothing is written to the slide here
+   */
+  private async handleSlideEditRequest(
+    message: string,
+    lessonId: number,
+    chatId: number,
+    targetSlide: number | null,
+    activeSlide?: Slide
+  ): Promise<{ response: string; actions: MessageAction[] }> {
     try {
       // Get the slides for this lesson
-      const slides = await storage.getSlidesByLessonId(lessonId);
+      const slides = (await storage.getSlidesByLessonId(lessonId)).sort((a, b) => a.order - b.order);
       if (!slides || slides.length === 0) {
-        return "I couldn't find any slides for this lesson.";
+        return { response: "I couldn't find any slides for this lesson.", actions: [] };
+      }
+      if (targetSlide !== null && targetSlide > slides.length) {
+        return { response: `This lesson only has ${slides.length} slides, so I couldn't find slide ${targetSlide}.`, actions: [] };
       }
       
-      // For simplicity, assume the edit request is for the current slide (first slide)
-      // In a real application, you would parse the message to determine which slide to edit
-      const slideToEdit = slides[0];
-      
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert in creating educational content for coding lessons. 
-            You need to update a slide based on a user request.
-            The current slide title is: "${slideToEdit.title}"
-            The current slide content is: "${slideToEdit.content}"
-            
-            Generate improved title and content based on the user's request.`
-          },
-          {
-            role: "user",
-            content: message
-          }
-        ],
-        response_format: { type: "json_object" }
-      });
+      // Without a slide number, edit the slide on screen (or the one the conversation is about)
+      const slideToEdit = targetSlide !== null
+        ? slides[targetSlide - 1]
+        : (await getCurrentSlideContext({ lessonId, chatId, slideId: activeSlide?.id })).currentSlide;
       
-      const responseContent = completion.choices[0].message.content || "{}";
-      const updatedSlide = JSON.parse(responseContent);
+      const current = {
+        title: slideToEdit.title,
+        content: slideToEdit.content,
+        cssContent: slideToEdit.cssContent ?? '',
+        jsContent: slideToEdit.jsContent ?? '',
+        tests: slideToEdit.tests ?? [],
+      };
+      const responseContent = await llm.json([
+        {
+          role: "system",
+          content: `You are an expert in creating educational content for coding lessons.
+You need to update a slide based on a user request. The slide currently is:
+${JSON.stringify(current, null, 2)}
+
+Reply with a JSON object containing only the fields you change (title, content, cssContent, jsContent or tests), each with its complete new value. Tests keep the same shape: id, name, description, validation and type.`
+        },
+        {
+          role: "user",
+          content: message
+        }
+      ]) || "{}";
+      const changes = slideChangesSchema.parse(JSON.parse(responseContent));
       
-      // Update the slide
-      await storage.updateSlide(slideToEdit.id, {
-        title: updatedSlide.title || slideToEdit.title,
-        content: updatedSlide.content || slideToEdit.content
-      });
+      const edit = proposeSlideEdit(slideToEdit, {
+        ...changes,
+        tests: changes.tests?.map(test => ({ ...test, id: test.id || uuidv4() })),
+      }, 'editSlide');
+      if (!edit) {
+        return { response: `I couldn't come up with changes to the slide "${slideToEdit.title}". Could you tell me more about what you'd like?`, actions: [] };
+      }
       
-      return `I've updated the slide "${updatedSlide.title || slideToEdit.title}" based on your request.`;
+      return {
+        response: `Here's what I'd change on the slide "${slideToEdit.title}". Accept it to apply it to the lesson, or reject it to keep the slide as it is.`,
+        actions: [{ kind: 'slide_edit', edit }],
+      };
     } catch (error: any) {
       console.error('Error handling slide edit request:', error);
-      return `I couldn't update the slide. Error: ${error.message}`;
+      const reason = error instanceof ZodError ? fromZodError(error).message : error.message;
+      return { response: `I couldn't update the slide. Error: ${reason}`, actions: [] };
     }
   }
 
@@ -611,8 +495,7 @@ When the user asks for changes to the lesson or requests new content, use these
   }
 
   private generateSlidesForTopic(topic: string, language: string, difficulty: string): any[] {
-    // This is a placeholder - in a real implementation, you would use OpenAI to generate
-    // a complete set of slides based on the topic, language, and difficulty
+    // Fallback slides used when the model is unavailable
     return [
       {
         title: "Introduction",
@@ -1,4 +1,4 @@
-import { getLesson, getLessons, getCurrentSlideContext, updateLesson } from '../tools/lessonTools';
+import { getLesson, getCurrentSlideContext, updateLesson } from '../tools/lessonTools';
 import { getSlides, getSlide, addSlide, updateSlide } from '../tools/slideTools';
 
 /**
@@ -38,22 +38,11 @@ export const tools: Tool[] = [
       }
     }
   },
-  {
-    type: "function",
-    function: {
-      name: "getLessons",
-      description: "Get a list of all available lessons",
-      parameters: {
-        type: "object",
-        properties: {}
-      }
-    }
-  },
   {
     type: "function",
     function: {
       name: "getCurrentSlideContext",
-      description: "Get the current slide context based on the chat history to determine what slide the user is viewing",
+      description: "Get the slide the user is viewing, as reported by their lesson page, or guessed from the chat history when it isn't known",
       parameters: {
         type: "object",
         properties: {
@@ -64,6 +53,10 @@ export const tools: Tool[] = [
           chatId: {
             type: "number",
             description: "The ID of the chat to analyze for context"
+          },
+          slideId: {
+            type: "number",
+            description: "The ID of the slide the user is viewing, when known"
           }
         },
         required: ["lessonId", "chatId"]
@@ -186,6 +179,24 @@ export const tools: Tool[] = [
             type: "string",
             description: "Filename for the code editor (e.g., script.js, index.html)"
           },
+          files: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: {
+                  type: "string",
+                  description: "File name, e.g. index.html, style.css or script.js"
+                },
+                content: {
+                  type: "string",
+                  description: "Starting content of the file"
+                }
+              },
+              required: ["name", "content"]
+            },
+            description: "Files for a multi-file HTML/CSS/JS challenge, shown as editor tabs with a live preview"
+          },
           tests: {
             type: "array",
             items: {
@@ -201,12 +212,16 @@ export const tools: Tool[] = [
                 },
                 validation: {
                   type: "string",
-                  description: "Validation code or regex pattern to check"
+                  description: "Regex pattern, or a JavaScript function body that returns true when the test passes. js tests receive (code, consoleOutput, files); dom tests run inside the rendered page and receive document, $, $$, click(selector) and type(selector, text), e.g. \"click('#go'); return $('#out').textContent === 'Hello'\"; unit tests are a Mocha/Chai-style describe/it suite using expect or assert that calls the student's functions, e.g. \"describe('add', () => { it('adds numbers', () => { expect(add(2, 3)).to.equal(5); }); })\""
                 },
                 type: {
                   type: "string",
-                  enum: ["regex", "js"],
-                  description: "Type of test (regex or JavaScript)"
+                  enum: ["regex", "js", "dom", "unit"],
+                  description: "Type of test (regex, JavaScript, JavaScript run against the rendered page, or a describe/it unit test suite)"
+                },
+                file: {
+                  type: "string",
+                  description: "Workspace file the test checks instead of the whole code"
                 }
               },
               required: ["name", "description", "validation", "type"]
@@ -222,7 +237,7 @@ export const tools: Tool[] = [
     type: "function",
     function: {
       name: "updateSlide",
-      description: "Update an existing slide",
+      description: "Propose changes to an existing slide. The user sees them as a diff and decides whether to apply them",
       parameters: {
         type: "object",
         properties: {
@@ -232,7 +247,7 @@ export const tools: Tool[] = [
           },
           slideId: {
             type: "number",
-            description: "The ID of the slide to update"
+            description: "The ID of the slide to update; defaults to the slide the user is viewing"
           },
           title: {
             type: "string",
@@ -262,6 +277,32 @@ export const tools: Tool[] = [
             type: "string",
             description: "New filename for the code editor"
           },
+          cssContent: {
+            type: "string",
+            description: "New CSS for an HTML slide"
+          },
+          jsContent: {
+            type: "string",
+            description: "New JavaScript for an HTML slide"
+          },
+          files: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: {
+                  type: "string",
+                  description: "File name, e.g. index.html, style.css or script.js"
+                },
+                content: {
+                  type: "string",
+                  description: "Starting content of the file"
+                }
+              },
+              required: ["name", "content"]
+            },
+            description: "New workspace files for a multi-file challenge"
+          },
           tests: {
             type: "array",
             items: {
@@ -277,12 +318,16 @@ export const tools: Tool[] = [
                 },
                 validation: {
                   type: "string",
-                  description: "Validation code or regex pattern to check"
+                  description: "Regex pattern, or a JavaScript function body that returns true when the test passes. js tests receive (code, consoleOutput, files); dom tests run inside the rendered page and receive document, $, $$, click(selector) and type(selector, text), e.g. \"click('#go'); return $('#out').textContent === 'Hello'\"; unit tests are a Mocha/Chai-style describe/it suite using expect or assert that calls the student's functions, e.g. \"describe('add', () => { it('adds numbers', () => { expect(add(2, 3)).to.equal(5); }); })\""
                 },
                 type: {
                   type: "string",
-                  enum: ["regex", "js"],
-                  description: "Type of test (regex or JavaScript)"
+                  enum: ["regex", "js", "dom", "unit"],
+                  description: "Type of test (regex, JavaScript, JavaScript run against the rendered page, or a describe/it unit test suite)"
+                },
+                file: {
+                  type: "string",
+                  description: "Workspace file the test checks instead of the whole code"
                 }
               },
               required: ["name", "description", "validation", "type"]
@@ -290,7 +335,7 @@ export const tools: Tool[] = [
             description: "New tests for challenge slides"
           }
         },
-        required: ["lessonId", "slideId"]
+        required: ["lessonId"]
       }
     }
   }
@@ -302,7 +347,6 @@ export const tools: Tool[] = [
  */
 export const toolsMap: Record<string, Function> = {
   getLesson,
-  getLessons,
   getCurrentSlideContext,
   updateLesson,
   getSlides,
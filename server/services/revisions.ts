@@ -0,0 +1,101 @@
+/**
+ * Revision history for slides and lessons. Changes made through these helpers
+ * record what the slide or lesson looked like afterwards and who made the
+ * change, so any earlier version can be restored.
+ */
+import {
+  LESSON_REVISION_FIELDS,
+  SLIDE_EDIT_FIELDS,
+  type Lesson,
+  type Revision,
+  type RevisionSource,
+  type Slide,
+} from '@shared/schema';
+import { storage } from '../storage';
+
+// Slides record the same fields the assistant can edit
+export const SLIDE_REVISION_FIELDS = SLIDE_EDIT_FIELDS;
+
+function snapshotOf<T extends object>(entity: T, fields: readonly string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map(field => [field, (entity as Record<string, unknown>)[field] ?? null]));
+}
+
+/**
+ * Record `after` as the newest revision of a slide (or, when `slideId` is null,
+ * of the lesson). The first recorded change also records `before`, so the
+ * original can be restored too.
+ */
+async function recordRevision(
+  lessonId: number,
+  slideId: number | null,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  source: RevisionSource
+): Promise<Revision | undefined> {
+  if (JSON.stringify(before) === JSON.stringify(after)) return undefined;
+
+  const history = (await storage.getRevisions(lessonId)).filter(revision => revision.slideId === slideId);
+  let latest = history.reduce((max, revision) => Math.max(max, revision.revision), 0);
+  if (latest === 0) {
+    await storage.createRevision({ lessonId, slideId, revision: ++latest, snapshot: before, source: { kind: 'initial' } });
+  }
+  return storage.createRevision({ lessonId, slideId, revision: latest + 1, snapshot: after, source });
+}
+
+/**
+ * Update a slide and record the change in its history
+ */
+export async function updateSlideWithHistory(slideId: number, changes: Partial<Slide>, source: RevisionSource): Promise<Slide> {
+  const slide = await storage.getSlide(slideId);
+  if (!slide) {
+    throw new Error(`Slide with id ${slideId} not found`);
+  }
+
+  const updatedSlide = await storage.updateSlide(slideId, changes);
+  await recordRevision(
+    slide.lessonId,
+    slide.id,
+    snapshotOf(slide, SLIDE_REVISION_FIELDS),
+    snapshotOf(updatedSlide, SLIDE_REVISION_FIELDS),
+    source
+  );
+  return updatedSlide;
+}
+
+/**
+ * Update a lesson's details and record the change in its history
+ */
+export async function updateLessonWithHistory(lessonId: number, changes: Partial<Lesson>, source: RevisionSource): Promise<Lesson> {
+  const lesson = await storage.getLesson(lessonId);
+  if (!lesson) {
+    throw new Error(`Lesson with id ${lessonId} not found`);
+  }
+
+  const updatedLesson = await storage.updateLesson(lessonId, changes);
+  await recordRevision(
+    lesson.id,
+    null,
+    snapshotOf(lesson, LESSON_REVISION_FIELDS),
+    snapshotOf(updatedLesson, LESSON_REVISION_FIELDS),
+    source
+  );
+  return updatedLesson;
+}
+
+/**
+ * Find revision number `revision` of a slide, or of the lesson when `slideId` is null
+ */
+export async function findRevision(lessonId: number, slideId: number | null, revision: number): Promise<Revision | undefined> {
+  return (await storage.getRevisions(lessonId)).find(existing => existing.slideId === slideId && existing.revision === revision);
+}
+
+/**
+ * Put a slide or lesson back the way it was at `revision`. The restore is
+ * itself recorded, so it can be undone the same way.
+ */
+export async function restoreRevision(revision: Revision, userId: number): Promise<Slide | Lesson> {
+  const source: RevisionSource = { kind: 'restore', userId, revision: revision.revision };
+  return revision.slideId != null
+    ? updateSlideWithHistory(revision.slideId, revision.snapshot as Partial<Slide>, source)
+    : updateLessonWithHistory(revision.lessonId, revision.snapshot as Partial<Lesson>, source);
+}
@@ -0,0 +1,269 @@
+import { Worker } from "worker_threads";
+import type { Slide } from "@shared/schema";
+import { UNIT_TEST_RUNTIME } from "@shared/unitTests";
+
+export type SandboxTest = NonNullable<Slide["tests"]>[number];
+
+export interface SandboxTestResult {
+  id: string;
+  name: string;
+  passed: boolean;
+  message?: string;
+}
+
+export interface ConsoleEntry {
+  level: "log" | "info" | "warn" | "error";
+  message: string;
+}
+
+export interface SandboxResult {
+  output: ConsoleEntry[];
+  error: string | null;
+  results: SandboxTestResult[];
+  timing: {
+    runMs: number;   // Executing the student's code
+    testMs: number;  // Evaluating the slide's tests
+    totalMs: number; // Including worker startup and teardown
+  };
+  timedOut: boolean;
+}
+
+export interface SandboxOptions {
+  timeoutMs?: number;   // CPU-time budget for the code and for each test
+  memoryMb?: number;    // Heap limit for the worker
+  maxOutputLines?: number;
+}
+
+const DEFAULT_OPTIONS: Required<SandboxOptions> = {
+  timeoutMs: parseInt(process.env.SANDBOX_TIMEOUT_MS || "2000"),
+  memoryMb: parseInt(process.env.SANDBOX_MEMORY_MB || "64"),
+  maxOutputLines: 500,
+};
+
+// The worker is started from source so it works both under tsx and in the
+// esbuild bundle, where there is no separate worker file on disk.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const vm = require("vm");
+const { performance } = require("perf_hooks");
+
+const { code, tests, timeoutMs, maxOutputLines, unitTestRuntime } = workerData;
+
+const errorMessage = (e) => {
+  if (e && e.code === "ERR_SCRIPT_EXECUTION_TIMEOUT") return "Execution timed out after " + timeoutMs + "ms";
+  return e && e.message ? e.message : String(e);
+};
+
+// Nothing from this realm is handed to the context (not even a prototype on the
+// global): any host object would lead code to the host Function and process.
+const context = vm.createContext(
+  Object.create(null),
+  { codeGeneration: { strings: true, wasm: false }, microtaskMode: "afterEvaluate" }
+);
+
+// The console is built inside the context and keeps its entries in a closure.
+// It only uses built-ins saved before student code runs, and the worker reads
+// the entries as primitives, so code that patches prototypes can't alter them.
+const sandboxConsole = vm.runInContext(\`(() => {
+  const levels = [];
+  const messages = [];
+  const stringify = JSON.stringify;
+  const toString = String;
+  const define = Object.defineProperty;
+  const formatArg = (arg) => {
+    if (typeof arg === "object" && arg !== null) {
+      try { return stringify(arg, null, 2); } catch (e) { return toString(arg); }
+    }
+    return toString(arg);
+  };
+  const append = (list, value) => define(list, list.length, { __proto__: null, value, writable: true, enumerable: true, configurable: true });
+  const record = (level, ...args) => {
+    if (messages.length >= \${maxOutputLines}) return;
+    let message = "";
+    for (let i = 0; i < args.length; i++) message += (i > 0 ? " " : "") + formatArg(args[i]);
+    append(levels, level);
+    append(messages, message);
+  };
+  globalThis.console = {
+    log: (...args) => record("log", ...args),
+    info: (...args) => record("info", ...args),
+    warn: (...args) => record("warn", ...args),
+    error: (...args) => record("error", ...args),
+  };
+  return { record, levels, messages };
+})()\`, context);
+
+// Console entries copied out of the context as plain strings
+const consoleEntries = () => {
+  const entries = [];
+  for (let i = 0; i < sandboxConsole.messages.length; i++) {
+    entries.push({ level: String(sandboxConsole.levels[i]), message: String(sandboxConsole.messages[i]) });
+  }
+  return entries;
+};
+
+// Plain strings with errors prefixed, as the tests expect
+const consoleLines = () => consoleEntries().map((entry) => entry.level === "error" ? "Error: " + entry.message : entry.message);
+
+let error = null;
+let timedOut = false;
+
+const runStart = performance.now();
+try {
+  vm.runInContext(code, context, { timeout: timeoutMs, filename: "main.js" });
+} catch (e) {
+  error = errorMessage(e);
+  timedOut = !!e && e.code === "ERR_SCRIPT_EXECUTION_TIMEOUT";
+  sandboxConsole.record("error", error);
+}
+const runMs = performance.now() - runStart;
+
+const testStart = performance.now();
+const results = tests.map((test) => {
+  try {
+    let passed = false;
+
+    if (test.type === "regex") {
+      passed = new RegExp(test.validation).test(code);
+    } else if (test.type === "js") {
+      // Each test gets a fresh context that the code never ran in, and sees the
+      // code and its console output as plain strings
+      const jsContext = vm.createContext(Object.create(null), { codeGeneration: { strings: true, wasm: false } });
+      jsContext.__validation = test.validation;
+      jsContext.__code = code;
+      jsContext.__consoleOutput = JSON.stringify(consoleLines());
+      passed = vm.runInContext(
+        "Boolean(new Function('code', 'consoleOutput', __validation)(__code, JSON.parse(__consoleOutput)))",
+        jsContext,
+        { timeout: timeoutMs }
+      ) === true;
+    } else if (test.type === "unit") {
+      // Each suite gets a fresh context and runs the code itself, so an earlier run can't rig it
+      const unitContext = vm.createContext(Object.create(null), { codeGeneration: { strings: true, wasm: false } });
+      vm.runInContext("globalThis.console = { log() {}, info() {}, warn() {}, error() {}, table() {} }", unitContext);
+      unitContext.__unit = vm.runInContext(unitTestRuntime, unitContext);
+      unitContext.__code = code;
+      unitContext.__suite = test.validation;
+      const outcome = vm.runInContext("__unit(__code, __suite)", unitContext, { timeout: timeoutMs });
+      return { id: test.id, name: test.name, passed: outcome.passed === true, message: String(outcome.message) };
+    } else if (test.type === "dom") {
+      return { id: test.id, name: test.name, passed: false, message: "DOM tests run in the browser preview and can't be graded here" };
+    }
+
+    return { id: test.id, name: test.name, passed, message: passed ? "Test passed!" : "Test failed" };
+  } catch (e) {
+    return { id: test.id, name: test.name, passed: false, message: "Error running test: " + errorMessage(e) };
+  }
+});
+const testMs = performance.now() - testStart;
+
+const output = consoleEntries();
+
+parentPort.postMessage({ output, error, results, runMs, testMs, timedOut });
+`;
+
+/**
+ * Strip script tags and a leading language identifier, matching the client runner
+ */
+export function cleanCode(code: string): string {
+  let cleanedCode = code
+    .replace(/<script>/g, "")
+    .replace(/<\/script>/g, "")
+    .replace(/<script type="text\/javascript">/g, "")
+    .replace(/<script language="javascript">/g, "")
+    .trim();
+
+  if (/^(javascript|js)(\s|$)/.test(cleanedCode)) {
+    cleanedCode = cleanedCode.replace(/^(javascript|js)(\s|$)/, "").trim();
+  }
+
+  return cleanedCode;
+}
+
+/**
+ * Run student code and a slide's tests in an isolated worker with CPU-time and memory limits
+ */
+export function runInSandbox(
+  code: string,
+  tests: SandboxTest[] = [],
+  options: SandboxOptions = {}
+): Promise<SandboxResult> {
+  const { timeoutMs, memoryMb, maxOutputLines } = { ...DEFAULT_OPTIONS, ...options };
+  const start = Date.now();
+
+  return new Promise((resolve) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { code: cleanCode(code), tests, timeoutMs, maxOutputLines, unitTestRuntime: UNIT_TEST_RUNTIME },
+      resourceLimits: {
+        maxOldGenerationSizeMb: memoryMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(memoryMb / 4)),
+        stackSizeMb: 4,
+      },
+      env: {},
+      stdout: true,
+      stderr: true,
+    });
+
+    let settled = false;
+    const finish = (result: Omit<SandboxResult, "timing"> & { runMs?: number; testMs?: number }) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(watchdog);
+      worker.terminate().catch(() => {});
+
+      const { runMs = 0, testMs = 0, ...rest } = result;
+      resolve({
+        ...rest,
+        timing: {
+          runMs: Math.round(runMs),
+          testMs: Math.round(testMs),
+          totalMs: Date.now() - start,
+        },
+      });
+    };
+
+    // The vm timeout covers synchronous code; this catches anything that slips past it
+    const watchdog = setTimeout(() => {
+      finish({
+        output: [],
+        error: `Execution timed out after ${timeoutMs}ms`,
+        results: failAll(tests, "Execution timed out"),
+        timedOut: true,
+      });
+    }, timeoutMs * (tests.length + 1) + 5000);
+
+    worker.on("message", (message) => finish(message));
+
+    worker.on("error", (error: Error & { code?: string }) => {
+      const message = error.code === "ERR_WORKER_OUT_OF_MEMORY"
+        ? `Memory limit of ${memoryMb}MB exceeded`
+        : error.message;
+
+      finish({
+        output: [{ level: "error", message }],
+        error: message,
+        results: failAll(tests, message),
+        timedOut: false,
+      });
+    });
+
+    worker.on("exit", (exitCode) => {
+      finish({
+        output: [],
+        error: `Sandbox exited unexpectedly (code ${exitCode})`,
+        results: failAll(tests, "Sandbox exited unexpectedly"),
+        timedOut: false,
+      });
+    });
+  });
+}
+
+function failAll(tests: SandboxTest[], reason: string): SandboxTestResult[] {
+  return tests.map(test => ({
+    id: test.id,
+    name: test.name,
+    passed: false,
+    message: `Error running test: ${reason}`,
+  }));
+}
@@ -0,0 +1,106 @@
+/**
+ * Slide edits proposed by the assistant. An edit is attached to the assistant
+ * message as a slide_edit action and only written to the slide once the user
+ * accepts it.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { SLIDE_EDIT_FIELDS, type Message, type Slide, type SlideEdit } from '@shared/schema';
+import { storage } from '../storage';
+import { canEditLesson, canReadLesson } from '../auth';
+import { updateSlideWithHistory } from './revisions';
+
+/**
+ * The edit couldn't be resolved; `status` is the HTTP status that describes why
+ */
+export class SlideEditError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'SlideEditError';
+  }
+}
+
+// Missing, null and empty values all mean the field isn't set
+function normalize(value: unknown): string {
+  if (value == null || (Array.isArray(value) && value.length === 0)) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Propose changing `slide` to `changes`, on behalf of `tool`. Fields that
+ * wouldn't change are left out; returns null when nothing would change at all.
+ */
+export function proposeSlideEdit(slide: Slide, changes: SlideEdit['after'], tool: string): SlideEdit | null {
+  const before: SlideEdit['before'] = {};
+  const after: SlideEdit['after'] = {};
+
+  for (const field of SLIDE_EDIT_FIELDS) {
+    if (changes[field] === undefined || sameValue(changes[field], slide[field])) continue;
+    Object.assign(before, { [field]: slide[field] });
+    Object.assign(after, { [field]: changes[field] });
+  }
+  if (Object.keys(after).length === 0) return null;
+
+  return {
+    id: uuidv4(),
+    lessonId: slide.lessonId,
+    slideId: slide.id,
+    slideTitle: slide.title,
+    tool,
+    status: 'pending',
+    before,
+    after,
+  };
+}
+
+/**
+ * Accept or reject, on behalf of `userId`, the pending edit `editId` attached
+ * to `message`. Accepting writes it to the slide, unless the slide has changed
+ * since the edit was proposed. Returns the message with the edit's new status.
+ */
+export async function resolveSlideEdit(message: Message, editId: string, accept: boolean, userId: number): Promise<Message> {
+  const action = (message.actions ?? []).find(action => action.kind === 'slide_edit' && action.edit.id === editId);
+  if (!action || action.kind !== 'slide_edit') {
+    throw new SlideEditError('Edit not found', 404);
+  }
+
+  const { edit } = action;
+  if (edit.status !== 'pending') {
+    throw new SlideEditError(`This edit was already ${edit.status}`, 409);
+  }
+
+  if (accept) {
+    const lesson = await storage.getLesson(edit.lessonId);
+    if (!lesson || !canReadLesson(lesson, userId)) {
+      throw new SlideEditError('The lesson this edit was for no longer exists', 404);
+    }
+    if (!canEditLesson(lesson, userId)) {
+      throw new SlideEditError("Shared lessons can't be changed", 403);
+    }
+    const slide = await storage.getSlide(edit.slideId);
+    if (!slide || slide.lessonId !== edit.lessonId) {
+      throw new SlideEditError('The slide this edit was for no longer exists', 404);
+    }
+    const changed = Object.entries(edit.before).some(([field, value]) => !sameValue(value, slide[field as keyof Slide]));
+    if (changed) {
+      throw new SlideEditError('The slide has changed since this edit was proposed', 409);
+    }
+    await updateSlideWithHistory(slide.id, edit.after, {
+      kind: 'assistant',
+      tool: edit.tool || 'updateSlide',
+      chatId: message.chatId,
+      messageId: message.id,
+      userId,
+    });
+  }
+
+  const status: SlideEdit['status'] = accept ? 'accepted' : 'rejected';
+  return storage.updateMessage(message.id, {
+    actions: (message.actions ?? []).map(existing =>
+      existing === action ? { ...action, edit: { ...edit, status } } : existing
+    ),
+  });
+}
@@ -1,12 +1,5 @@
 import { Tool } from "../openai";
-import OpenAI from "openai";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const MODEL = "gpt-4o";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { llm } from "../llm";
 
 /**
  * Tool definitions for code-related operations
@@ -112,14 +105,11 @@ Please provide:
 
 Format your response in markdown with clear sections and examples.`;
 
-        const response = await openai.chat.completions.create({
-          model: MODEL,
-          messages: [{ role: "user", content: prompt }],
-        });
+        const response = await llm.chat([{ role: "user", content: prompt }]);
 
         return {
           status: "success",
-          analysis: response.choices[0].message.content,
+          analysis: response,
         };
       } catch (error) {
         console.error("Error analyzing code:", error);
@@ -158,14 +148,11 @@ Please:
 
 Make sure your explanation is engaging and educational for a teenage audience.`;
 
-        const response = await openai.chat.completions.create({
-          model: MODEL,
-          messages: [{ role: "user", content: prompt }],
-        });
+        const response = await llm.chat([{ role: "user", content: prompt }]);
 
         return {
           status: "success",
-          explanation: response.choices[0].message.content,
+          explanation: response,
         };
       } catch (error) {
         console.error("Error explaining code:", error);
@@ -217,15 +204,9 @@ Format the response as a JSON array with this structure:
 
 Include at least 3 tests, but no more than 5.`;
 
-        const response = await openai.chat.completions.create({
-          model: MODEL,
-          messages: [{ role: "user", content: prompt }],
-          response_format: { type: "json_object" },
-        });
-
-        const content = response.choices[0].message.content;
+        const content = await llm.json([{ role: "user", content: prompt }]);
         if (!content) {
-          throw new Error("Empty response from OpenAI");
+          throw new Error(`Empty response from ${llm.name} LLM provider`);
         }
 
         try {
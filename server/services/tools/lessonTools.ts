@@ -1,4 +1,6 @@
 import { storage } from '../../storage';
+import type { RevisionSource } from '@shared/schema';
+import { updateLessonWithHistory } from '../revisions';
 
 /**
  * Get details about a specific lesson
@@ -31,24 +33,7 @@ export async function getLesson(args: { lessonId: number }) {
 }
 
 /**
- * Get all lessons
- */
-export async function getLessons() {
-  try {
-    console.log('[LessonTools] Getting all lessons');
-    
-    // Get all lessons
-    const lessons = await storage.getLessons();
-    
-    return lessons;
-  } catch (error: any) {
-    console.error('[LessonTools] Error getting lessons:', error);
-    throw new Error(`Failed to get lessons: ${error.message}`);
-  }
-}
-
-/**
- * Update lesson details
+ * Update lesson details, recording `source` as the author in its history
  */
 export async function updateLesson(args: { 
   lessonId: number, 
@@ -57,7 +42,7 @@ export async function updateLesson(args: {
   difficulty?: 'beginner' | 'intermediate' | 'advanced',
   language?: string,
   estimatedTime?: string
-}) {
+}, source: RevisionSource = { kind: 'assistant', tool: 'updateLesson' }) {
   try {
     const { lessonId, ...updateData } = args;
     
@@ -71,7 +56,7 @@ export async function updateLesson(args: {
     }
     
     // Update the lesson
-    const updatedLesson = await storage.updateLesson(lessonId, updateData);
+    const updatedLesson = await updateLessonWithHistory(lessonId, updateData, source);
     
     return updatedLesson;
   } catch (error: any) {
@@ -81,12 +66,12 @@ export async function updateLesson(args: {
 }
 
 /**
- * Get the current active slide based on chat context
- * This helps determine which slide the user is currently viewing
+ * Get the current active slide. The slide the client reports as on screen wins;
+ * without one, the chat history is searched for the slide being discussed
  */
-export async function getCurrentSlideContext(args: { lessonId: number, chatId: number }) {
+export async function getCurrentSlideContext(args: { lessonId: number, chatId: number, slideId?: number }) {
   try {
-    const { lessonId, chatId } = args;
+    const { lessonId, chatId, slideId } = args;
     
     console.log(`[LessonTools] Getting current slide context for lesson ID: ${lessonId}, chat ID: ${chatId}`);
     
@@ -110,6 +95,14 @@ export async function getCurrentSlideContext(args: { lessonId: number, chatId: n
     // Sort slides by order
     const sortedSlides = slides.sort((a, b) => a.order - b.order);
     
+    const activeSlide = slideId != null ? sortedSlides.find(slide => slide.id === slideId) : undefined;
+    if (activeSlide) {
+      return {
+        currentSlide: activeSlide,
+        allSlides: sortedSlides
+      };
+    }
+    
     // Look through messages to find references to specific slides
     for (let i = messages.length - 1; i >= 0; i--) {
       const message = messages[i];
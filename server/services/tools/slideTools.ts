@@ -1,5 +1,8 @@
 import { storage } from '../../storage';
 import { v4 as uuidv4 } from 'uuid';
+import type { RevisionSource } from '@shared/schema';
+import { proposeSlideEdit } from '../slideEdits';
+import { updateSlideWithHistory } from '../revisions';
 
 /**
  * Get all slides for a specific lesson
@@ -65,16 +68,21 @@ export async function addSlide(args: {
   tags?: string[],
   initialCode?: string,
   filename?: string,
+  files?: Array<{
+    name: string,
+    content: string
+  }>,
   tests?: Array<{
     id?: string,
     name: string,
     description: string,
     validation: string,
-    type: 'regex' | 'js'
+    type: 'regex' | 'js' | 'dom' | 'unit',
+    file?: string
   }>
 }) {
   try {
-    const { lessonId, title, content, type, tags = [], initialCode, filename, tests = [] } = args;
+    const { lessonId, title, content, type, tags = [], initialCode, filename, files = [], tests = [] } = args;
     
     console.log(`[SlideTools] Adding new ${type} slide to lesson ID: ${lessonId}`);
     
@@ -104,6 +112,7 @@ export async function addSlide(args: {
       tags,
       initialCode,
       filename,
+      files,
       tests: processedTests
     });
     
@@ -114,10 +123,8 @@ export async function addSlide(args: {
   }
 }
 
-/**
- * Update an existing slide
- */
-export async function updateSlide(args: { 
+// Arguments of the updateSlide tool
+interface UpdateSlideArgs {
   lessonId: number,
   slideId: number,
   title?: string,
@@ -126,51 +133,88 @@ export async function updateSlide(args: {
   tags?: string[],
   initialCode?: string,
   filename?: string,
+  cssContent?: string,
+  jsContent?: string,
+  files?: Array<{
+    name: string,
+    content: string
+  }>,
   tests?: Array<{
     id?: string,
     name: string,
     description: string,
     validation: string,
-    type: 'regex' | 'js'
+    type: 'regex' | 'js' | 'dom' | 'unit',
+    file?: string
   }>
-}) {
+}
+
+/**
+ * Find the slide an update is for, and the changes it asks for
+ */
+async function prepareSlideUpdate(args: UpdateSlideArgs) {
+  const { lessonId, slideId, ...updateData } = args;
+  
+  // Get the slide to ensure it exists and belongs to the lesson
+  const slide = await storage.getSlide(slideId);
+  
+  if (!slide) {
+    throw new Error(`Slide with ID ${slideId} not found`);
+  }
+  
+  if (slide.lessonId !== lessonId) {
+    throw new Error(`Slide with ID ${slideId} does not belong to lesson with ID ${lessonId}`);
+  }
+  
+  // Process tests if provided to ensure each has a valid ID
+  const { tests, ...changes } = updateData;
+  if (!tests) {
+    return { slide, changes };
+  }
+  
+  const processedTests = tests.map(test => ({
+    id: test.id || uuidv4(),
+    name: test.name,
+    description: test.description,
+    validation: test.validation,
+    type: test.type,
+    ...(test.file ? { file: test.file } : {})
+  }));
+  
+  return { slide, changes: { ...changes, tests: processedTests } };
+}
+
+/**
+ * Update an existing slide, recording `source` as the author in its history
+ */
+export async function updateSlide(args: UpdateSlideArgs, source: RevisionSource = { kind: 'assistant', tool: 'updateSlide' }) {
   try {
-    const { lessonId, slideId, ...updateData } = args;
-    
-    console.log(`[SlideTools] Updating slide ID: ${slideId} in lesson ID: ${lessonId}`);
+    console.log(`[SlideTools] Updating slide ID: ${args.slideId} in lesson ID: ${args.lessonId}`);
     
-    // Get the slide to ensure it exists and belongs to the lesson
-    const slide = await storage.getSlide(slideId);
-    
-    if (!slide) {
-      throw new Error(`Slide with ID ${slideId} not found`);
-    }
-    
-    if (slide.lessonId !== lessonId) {
-      throw new Error(`Slide with ID ${slideId} does not belong to lesson with ID ${lessonId}`);
-    }
-    
-    // Process tests if provided to ensure each has a valid ID
-    if (updateData.tests) {
-      // Add properly typed test array
-      const processedTests = updateData.tests.map(test => ({
-        id: test.id || uuidv4(),
-        name: test.name,
-        description: test.description,
-        validation: test.validation,
-        type: test.type
-      }));
-      
-      // Replace the original tests with properly typed tests
-      updateData.tests = processedTests;
-    }
+    const { slide, changes } = await prepareSlideUpdate(args);
     
     // Update the slide
-    const updatedSlide = await storage.updateSlide(slideId, updateData);
+    const updatedSlide = await updateSlideWithHistory(slide.id, changes, source);
     
     return updatedSlide;
   } catch (error: any) {
     console.error('[SlideTools] Error updating slide:', error);
     throw new Error(`Failed to update slide: ${error.message}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Propose an update to an existing slide without applying it. Returns null
+ * when the update wouldn't change anything.
+ */
+export async function proposeSlideUpdate(args: UpdateSlideArgs) {
+  try {
+    console.log(`[SlideTools] Proposing an update to slide ID: ${args.slideId} in lesson ID: ${args.lessonId}`);
+    
+    const { slide, changes } = await prepareSlideUpdate(args);
+    return proposeSlideEdit(slide, changes, 'updateSlide');
+  } catch (error: any) {
+    console.error('[SlideTools] Error proposing slide update:', error);
+    throw new Error(`Failed to propose slide update: ${error.message}`);
+  }
+}
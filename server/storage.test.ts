@@ -0,0 +1,284 @@
+/**
+ * Behaviour every storage driver must share, run against MemStorage,
+ * FileStorage in a temporary directory, and DbStorage on an in-process
+ * Postgres (PGlite) built from the schema.
+ *
+ * Run with `npm test`.
+ */
+import { describe, it, before, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createRequire } from 'module';
+import session from 'express-session';
+import { PGlite } from '@electric-sql/pglite';
+import { getTableName } from 'drizzle-orm';
+import { drizzle } from 'drizzle-orm/pglite';
+import * as schema from '@shared/schema';
+import { DbStorage, FileStorage, MemStorage, type IStorage } from './storage';
+
+// drizzle-kit's ESM build can't load its own CommonJS dependencies
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)('drizzle-kit/api') as typeof import('drizzle-kit/api');
+
+// Starting Postgres is slow, so the database is created once and emptied before each test
+let client: PGlite | undefined;
+
+async function createDbStorage(): Promise<IStorage> {
+  if (!client) {
+    client = new PGlite();
+    for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+      await client.exec(statement);
+    }
+  } else {
+    const tables = [schema.users, schema.lessons, schema.slides, schema.slideProgress, schema.chats, schema.messages, schema.revisions];
+    await client.exec(`TRUNCATE ${tables.map(table => `"${getTableName(table)}"`).join(', ')} RESTART IDENTITY CASCADE`);
+  }
+  return new DbStorage(drizzle({ client, schema }), new session.MemoryStore());
+}
+
+let tempDir: string;
+
+before(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+});
+
+after(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const drivers: Record<string, () => Promise<IStorage>> = {
+  MemStorage: async () => new MemStorage(),
+  FileStorage: async () => new FileStorage(fs.mkdtempSync(path.join(tempDir, 'store-'))),
+  DbStorage: createDbStorage,
+};
+
+for (const [name, createStorage] of Object.entries(drivers)) {
+  describe(name, () => {
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await createStorage();
+    });
+
+    const createUser = (username: string) => storage.createUser({ username, password: 'hashed' });
+    const createLesson = (title: string, userId: number | null) =>
+      storage.createLesson({ title, description: `About ${title}`, difficulty: 'beginner', language: 'javascript', userId });
+    const createSlide = (lessonId: number, title: string, order: number) =>
+      storage.createSlide({ lessonId, title, content: `${title} content`, type: 'info', order });
+
+    describe('users', () => {
+      it('finds users by id and username', async () => {
+        const user = await createUser('ada');
+        assert.equal((await storage.getUser(user.id))?.username, 'ada');
+        assert.equal((await storage.getUserByUsername('ada'))?.id, user.id);
+        assert.equal(await storage.getUserByUsername('grace'), undefined);
+      });
+    });
+
+    describe('lessons', () => {
+      it('lists a user\'s own lessons and shared ones, but not other users\'', async () => {
+        const ada = await createUser('ada');
+        const grace = await createUser('grace');
+        const own = await createLesson('Loops', ada.id);
+        const shared = await createLesson('Shared', null);
+        const other = await createLesson('Arrays', grace.id);
+
+        const ids = (await storage.getLessonsByUserId(ada.id)).map(lesson => lesson.id);
+        assert.ok(ids.includes(own.id));
+        assert.ok(ids.includes(shared.id));
+        assert.ok(!ids.includes(other.id));
+      });
+
+      it('updates a lesson and moves its updatedAt forward', async () => {
+        const lesson = await createLesson('Loops', null);
+        const updated = await storage.updateLesson(lesson.id, { title: 'For loops' });
+
+        assert.equal(updated.title, 'For loops');
+        assert.equal(updated.description, lesson.description);
+        assert.ok(updated.updatedAt.getTime() >= lesson.updatedAt.getTime());
+        assert.equal((await storage.getLesson(lesson.id))?.title, 'For loops');
+      });
+
+      it('refuses to update a missing lesson', async () => {
+        await assert.rejects(storage.updateLesson(999, { title: 'Nope' }), /not found/);
+      });
+
+      it('deletes a lesson with its slides, progress, chats, messages and revisions', async () => {
+        const user = await createUser('ada');
+        const lesson = await createLesson('Loops', user.id);
+        const slide = await createSlide(lesson.id, 'Intro', 0);
+        await storage.upsertSlideProgress({ userId: user.id, lessonId: lesson.id, slideId: slide.id, completed: true });
+        const chat = await storage.createChat({ title: 'Chat', lessonId: lesson.id, userId: user.id });
+        const message = await storage.createMessage({ chatId: chat.id, role: 'user', content: 'Hi' });
+        await storage.createRevision({ lessonId: lesson.id, slideId: slide.id, revision: 1, snapshot: { title: 'Intro' }, source: { kind: 'initial' } });
+
+        assert.equal(await storage.deleteLesson(lesson.id), true);
+        assert.equal(await storage.getLesson(lesson.id), undefined);
+        assert.equal(await storage.getSlide(slide.id), undefined);
+        assert.deepEqual(await storage.getSlideProgress(user.id, lesson.id), []);
+        assert.equal(await storage.getChat(chat.id), undefined);
+        assert.equal(await storage.getMessage(message.id), undefined);
+        assert.deepEqual(await storage.getRevisions(lesson.id), []);
+        assert.equal(await storage.deleteLesson(lesson.id), false);
+      });
+    });
+
+    describe('slides', () => {
+      it('returns a lesson\'s slides in order', async () => {
+        const lesson = await createLesson('Loops', null);
+        await createSlide(lesson.id, 'Third', 2);
+        await createSlide(lesson.id, 'First', 0);
+        await createSlide(lesson.id, 'Second', 1);
+
+        const titles = (await storage.getSlidesByLessonId(lesson.id)).map(slide => slide.title);
+        assert.deepEqual(titles, ['First', 'Second', 'Third']);
+      });
+
+      it('stores tests and files as given', async () => {
+        const lesson = await createLesson('Loops', null);
+        const tests = [{ id: 'test-1', name: 'Has a loop', description: 'Use a for loop', validation: 'for\\s*\\(', type: 'regex' as const }];
+        const files = [{ name: 'index.js', content: 'for (;;) {}' }];
+        const slide = await storage.createSlide({ lessonId: lesson.id, title: 'Loop', content: 'Write a loop', type: 'challenge', order: 0, tests, files });
+
+        const stored = await storage.getSlide(slide.id);
+        assert.deepEqual(stored?.tests, tests);
+        assert.deepEqual(stored?.files, files);
+      });
+
+      it('updates only the given fields', async () => {
+        const lesson = await createLesson('Loops', null);
+        const slide = await createSlide(lesson.id, 'Intro', 0);
+        const updated = await storage.updateSlide(slide.id, { content: 'New content' });
+
+        assert.equal(updated.content, 'New content');
+        assert.equal(updated.title, 'Intro');
+        await assert.rejects(storage.updateSlide(999, { content: 'Nope' }), /not found/);
+      });
+
+      it('deletes a slide with its progress and revisions', async () => {
+        const user = await createUser('ada');
+        const lesson = await createLesson('Loops', user.id);
+        const slide = await createSlide(lesson.id, 'Intro', 0);
+        const kept = await createSlide(lesson.id, 'Next', 1);
+        await storage.upsertSlideProgress({ userId: user.id, lessonId: lesson.id, slideId: slide.id, completed: true });
+        await storage.createRevision({ lessonId: lesson.id, slideId: slide.id, revision: 1, snapshot: { title: 'Intro' }, source: { kind: 'initial' } });
+
+        assert.equal(await storage.deleteSlide(slide.id), true);
+        assert.deepEqual((await storage.getSlidesByLessonId(lesson.id)).map(s => s.id), [kept.id]);
+        assert.deepEqual(await storage.getSlideProgress(user.id, lesson.id), []);
+        assert.deepEqual(await storage.getRevisions(lesson.id), []);
+        assert.equal(await storage.deleteSlide(slide.id), false);
+      });
+    });
+
+    describe('slide progress', () => {
+      it('keeps one record per user and slide, updating only the given fields', async () => {
+        const user = await createUser('ada');
+        const lesson = await createLesson('Loops', user.id);
+        const slide = await createSlide(lesson.id, 'Intro', 0);
+
+        const first = await storage.upsertSlideProgress({ userId: user.id, lessonId: lesson.id, slideId: slide.id, lastCode: 'let i = 0;' });
+        assert.equal(first.completed, false);
+
+        const second = await storage.upsertSlideProgress({ userId: user.id, lessonId: lesson.id, slideId: slide.id, completed: true });
+        assert.equal(second.id, first.id);
+        assert.equal(second.completed, true);
+        assert.equal(second.lastCode, 'let i = 0;');
+        assert.equal((await storage.getSlideProgress(user.id, lesson.id)).length, 1);
+      });
+
+      it('keeps each user\'s progress separate', async () => {
+        const ada = await createUser('ada');
+        const grace = await createUser('grace');
+        const lesson = await createLesson('Shared', null);
+        const slide = await createSlide(lesson.id, 'Intro', 0);
+        await storage.upsertSlideProgress({ userId: ada.id, lessonId: lesson.id, slideId: slide.id, completed: true });
+
+        assert.equal((await storage.getSlideProgress(ada.id, lesson.id)).length, 1);
+        assert.deepEqual(await storage.getSlideProgress(grace.id, lesson.id), []);
+      });
+    });
+
+    describe('chats and messages', () => {
+      it('finds a lesson\'s chat for the given user', async () => {
+        const ada = await createUser('ada');
+        const grace = await createUser('grace');
+        const lesson = await createLesson('Shared', null);
+        const adaChat = await storage.createChat({ title: 'Ada', lessonId: lesson.id, userId: ada.id });
+        const graceChat = await storage.createChat({ title: 'Grace', lessonId: lesson.id, userId: grace.id });
+
+        assert.equal((await storage.getChatByLessonId(lesson.id, ada.id))?.id, adaChat.id);
+        assert.equal((await storage.getChatByLessonId(lesson.id, grace.id))?.id, graceChat.id);
+        assert.equal(await storage.getChatByLessonId(lesson.id, 999), undefined);
+      });
+
+      it('returns a chat\'s messages oldest first and updates them', async () => {
+        const chat = await storage.createChat({ title: 'Chat' });
+        const later = await storage.createMessage({ chatId: chat.id, role: 'assistant', content: 'Later', timestamp: new Date(2024, 0, 2) });
+        await storage.createMessage({ chatId: chat.id, role: 'user', content: 'Earlier', timestamp: new Date(2024, 0, 1) });
+
+        const contents = (await storage.getMessagesByChatId(chat.id)).map(message => message.content);
+        assert.deepEqual(contents, ['Earlier', 'Later']);
+        assert.deepEqual(later.toolCalls, []);
+
+        const updated = await storage.updateMessage(later.id, { content: 'Edited' });
+        assert.equal(updated.content, 'Edited');
+        assert.equal(updated.role, 'assistant');
+        await assert.rejects(storage.updateMessage(999, { content: 'Nope' }), /not found/);
+      });
+
+      it('deletes a chat with its messages', async () => {
+        const chat = await storage.createChat({ title: 'Chat' });
+        const message = await storage.createMessage({ chatId: chat.id, role: 'user', content: 'Hi' });
+
+        assert.equal(await storage.deleteChat(chat.id), true);
+        assert.equal(await storage.getChat(chat.id), undefined);
+        assert.equal(await storage.getMessage(message.id), undefined);
+      });
+    });
+
+    describe('revisions', () => {
+      it('returns a lesson\'s revisions oldest first', async () => {
+        const lesson = await createLesson('Loops', null);
+        const other = await createLesson('Arrays', null);
+        await storage.createRevision({ lessonId: lesson.id, slideId: null, revision: 1, snapshot: { title: 'Loops' }, source: { kind: 'initial' } });
+        await storage.createRevision({ lessonId: other.id, slideId: null, revision: 1, snapshot: { title: 'Arrays' }, source: { kind: 'initial' } });
+        await storage.createRevision({ lessonId: lesson.id, slideId: null, revision: 2, snapshot: { title: 'For loops' }, source: { kind: 'user', userId: 1 } });
+
+        const history = await storage.getRevisions(lesson.id);
+        assert.deepEqual(history.map(revision => revision.revision), [1, 2]);
+        assert.deepEqual(history[1].source, { kind: 'user', userId: 1 });
+      });
+    });
+  });
+}
+
+describe('FileStorage', () => {
+  it('keeps its data after a restart', async () => {
+    const dataDir = fs.mkdtempSync(path.join(tempDir, 'store-'));
+    const lesson = await new FileStorage(dataDir).createLesson({ title: 'Loops', userId: null });
+
+    assert.equal((await new FileStorage(dataDir).getLesson(lesson.id))?.title, 'Loops');
+  });
+
+  it('rolls a change back when it can\'t be written', async () => {
+    const dataDir = fs.mkdtempSync(path.join(tempDir, 'store-'));
+    const storage = new FileStorage(dataDir);
+    const lesson = await storage.createLesson({ title: 'Loops', userId: null });
+
+    // Keeping the previous version fails once the snapshot directory is a file
+    fs.rmSync(path.join(dataDir, 'snapshots'), { recursive: true });
+    fs.writeFileSync(path.join(dataDir, 'snapshots'), '');
+
+    await assert.rejects(storage.updateLesson(lesson.id, { title: 'For loops' }));
+    await assert.rejects(storage.createLesson({ title: 'Arrays', userId: null }));
+    assert.equal((await storage.getLesson(lesson.id))?.title, 'Loops');
+    assert.ok(!(await storage.getLessons()).some(stored => stored.title === 'Arrays'));
+
+    fs.rmSync(path.join(dataDir, 'snapshots'));
+    fs.mkdirSync(path.join(dataDir, 'snapshots'));
+    const arrays = await storage.createLesson({ title: 'Arrays', userId: null });
+    assert.equal(arrays.id, lesson.id + 1);
+  });
+});
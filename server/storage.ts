@@ -1,18 +1,42 @@
+import fs from "fs";
+import path from "path";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, asc, eq, inArray, isNull, or } from "drizzle-orm";
 import {
+  lessons,
+  slides,
+  slideProgress,
+  chats,
+  messages,
+  revisions,
+  users,
   type Lesson,
   type InsertLesson,
   type Slide,
   type InsertSlide,
+  type SlideProgress,
+  type InsertSlideProgress,
   type Chat,
   type InsertChat,
   type Message,
   type InsertMessage,
+  type Revision,
+  type InsertRevision,
   type User,
   type InsertUser,
 } from "@shared/schema";
+import { createDb, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 // Interface for storage operations
 export interface IStorage {
+  // Express session store backing login sessions
+  sessionStore: session.Store;
+
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -20,6 +44,7 @@ export interface IStorage {
   
   // Lessons
   getLessons(): Promise<Lesson[]>;
+  getLessonsByUserId(userId: number): Promise<Lesson[]>; // Owned lessons plus shared (unowned) ones
   getLesson(id: number): Promise<Lesson | undefined>;
   createLesson(lesson: InsertLesson): Promise<Lesson>;
   updateLesson(id: number, lesson: Partial<Lesson>): Promise<Lesson>;
@@ -32,9 +57,13 @@ export interface IStorage {
   updateSlide(id: number, slide: Partial<Slide>): Promise<Slide>;
   deleteSlide(id: number): Promise<boolean>;
   
+  // Slide progress (per user)
+  getSlideProgress(userId: number, lessonId: number): Promise<SlideProgress[]>;
+  upsertSlideProgress(progress: InsertSlideProgress): Promise<SlideProgress>;
+  
   // Chats
   getChat(id: number): Promise<Chat | undefined>;
-  getChatByLessonId(lessonId: number): Promise<Chat | undefined>;
+  getChatByLessonId(lessonId: number, userId?: number): Promise<Chat | undefined>;
   createChat(chat: InsertChat): Promise<Chat>;
   updateChat(id: number, chat: Partial<Chat>): Promise<Chat>;
   deleteChat(id: number): Promise<boolean>;
@@ -43,38 +72,64 @@ export interface IStorage {
   getMessage(id: number): Promise<Message | undefined>;
   getMessagesByChatId(chatId: number): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
+  updateMessage(id: number, message: Partial<Message>): Promise<Message>;
+  
+  // Revision history of a lesson and its slides, oldest first
+  getRevisions(lessonId: number): Promise<Revision[]>;
+  createRevision(revision: InsertRevision): Promise<Revision>;
 }
 
 export class MemStorage implements IStorage {
-  private users: Map<number, User>;
-  private lessons: Map<number, Lesson>;
-  private slides: Map<number, Slide>;
-  private chats: Map<number, Chat>;
-  private messages: Map<number, Message>;
+  protected users: Map<number, User>;
+  protected lessons: Map<number, Lesson>;
+  protected slides: Map<number, Slide>;
+  protected slideProgress: Map<number, SlideProgress>;
+  protected chats: Map<number, Chat>;
+  protected messages: Map<number, Message>;
+  protected revisions: Map<number, Revision>;
   
-  private userId: number;
-  private lessonId: number;
-  private slideId: number;
-  private chatId: number;
-  private messageId: number;
+  protected userId: number;
+  protected lessonId: number;
+  protected slideId: number;
+  protected slideProgressId: number;
+  protected chatId: number;
+  protected messageId: number;
+  protected revisionId: number;
+
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.lessons = new Map();
     this.slides = new Map();
+    this.slideProgress = new Map();
     this.chats = new Map();
     this.messages = new Map();
+    this.revisions = new Map();
     
     this.userId = 1;
     this.lessonId = 1;
     this.slideId = 1;
+    this.slideProgressId = 1;
     this.chatId = 1;
     this.messageId = 1;
+    this.revisionId = 1;
+
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
     
     // Add some initial data
     this.initializeData();
   }
 
+  // Remove the entries of `map` that match, for deletes that cascade like the database's
+  private deleteWhere<T>(map: Map<number, T>, matches: (item: T) => boolean) {
+    for (const [id, item] of Array.from(map.entries())) {
+      if (matches(item)) map.delete(id);
+    }
+  }
+
   // Initialize with sample data
   private initializeData() {
     // Sample JavaScript lesson
@@ -100,7 +155,6 @@ export class MemStorage implements IStorage {
         type: "info",
         order: 0,
         tags: ["introduction", "history"],
-        completed: false,
       },
       {
         id: this.slideId++,
@@ -110,7 +164,6 @@ export class MemStorage implements IStorage {
         type: "info",
         order: 1,
         tags: ["functions"],
-        completed: false,
       },
       {
         id: this.slideId++,
@@ -145,7 +198,6 @@ export class MemStorage implements IStorage {
             type: "js"
           }
         ],
-        completed: false,
       }
     ];
     
@@ -177,6 +229,12 @@ export class MemStorage implements IStorage {
     return Array.from(this.lessons.values());
   }
 
+  async getLessonsByUserId(userId: number): Promise<Lesson[]> {
+    return Array.from(this.lessons.values()).filter(
+      (lesson) => lesson.userId == null || lesson.userId === userId
+    );
+  }
+
   async getLesson(id: number): Promise<Lesson | undefined> {
     return this.lessons.get(id);
   }
@@ -210,6 +268,13 @@ export class MemStorage implements IStorage {
   }
 
   async deleteLesson(id: number): Promise<boolean> {
+    // Remove everything that references the lesson along with it
+    const chatIds = Array.from(this.chats.values()).filter(chat => chat.lessonId === id).map(chat => chat.id);
+    this.deleteWhere(this.messages, message => chatIds.includes(message.chatId));
+    this.deleteWhere(this.chats, chat => chat.lessonId === id);
+    this.deleteWhere(this.slideProgress, progress => progress.lessonId === id);
+    this.deleteWhere(this.revisions, revision => revision.lessonId === id);
+    this.deleteWhere(this.slides, slide => slide.lessonId === id);
     return this.lessons.delete(id);
   }
 
@@ -219,9 +284,9 @@ export class MemStorage implements IStorage {
   }
 
   async getSlidesByLessonId(lessonId: number): Promise<Slide[]> {
-    return Array.from(this.slides.values()).filter(
-      (slide) => slide.lessonId === lessonId
-    );
+    return Array.from(this.slides.values())
+      .filter((slide) => slide.lessonId === lessonId)
+      .sort((a, b) => a.order - b.order || a.id - b.id);
   }
 
   async createSlide(insertSlide: InsertSlide): Promise<Slide> {
@@ -243,17 +308,57 @@ export class MemStorage implements IStorage {
   }
 
   async deleteSlide(id: number): Promise<boolean> {
+    this.deleteWhere(this.slideProgress, progress => progress.slideId === id);
+    this.deleteWhere(this.revisions, revision => revision.slideId === id);
     return this.slides.delete(id);
   }
 
+  // Slide progress methods
+  async getSlideProgress(userId: number, lessonId: number): Promise<SlideProgress[]> {
+    return Array.from(this.slideProgress.values()).filter(
+      (progress) => progress.userId === userId && progress.lessonId === lessonId
+    );
+  }
+
+  async upsertSlideProgress(insertProgress: InsertSlideProgress): Promise<SlideProgress> {
+    const now = new Date();
+    const existing = Array.from(this.slideProgress.values()).find(
+      (progress) => progress.userId === insertProgress.userId && progress.slideId === insertProgress.slideId
+    );
+
+    if (existing) {
+      // Only overwrite the fields that were actually provided
+      const changes = Object.fromEntries(
+        Object.entries(insertProgress).filter(([, value]) => value !== undefined)
+      );
+      const updatedProgress = { ...existing, ...changes, updatedAt: now } as SlideProgress;
+      this.slideProgress.set(existing.id, updatedProgress);
+      return updatedProgress;
+    }
+
+    const id = this.slideProgressId++;
+    const progress: SlideProgress = {
+      completed: false,
+      lastCode: null,
+      testResults: [],
+      completedAt: null,
+      ...insertProgress,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    } as SlideProgress;
+    this.slideProgress.set(id, progress);
+    return progress;
+  }
+
   // Chat methods
   async getChat(id: number): Promise<Chat | undefined> {
     return this.chats.get(id);
   }
 
-  async getChatByLessonId(lessonId: number): Promise<Chat | undefined> {
+  async getChatByLessonId(lessonId: number, userId?: number): Promise<Chat | undefined> {
     return Array.from(this.chats.values()).find(
-      (chat) => chat.lessonId === lessonId
+      (chat) => chat.lessonId === lessonId && (userId === undefined || chat.userId === userId)
     );
   }
 
@@ -286,6 +391,7 @@ export class MemStorage implements IStorage {
   }
 
   async deleteChat(id: number): Promise<boolean> {
+    this.deleteWhere(this.messages, message => message.chatId === id);
     return this.chats.delete(id);
   }
 
@@ -311,11 +417,530 @@ export class MemStorage implements IStorage {
     const message = { 
       ...insertMessage, 
       id, 
+      toolCalls: insertMessage.toolCalls ?? [],
+      actions: insertMessage.actions ?? [],
       timestamp: insertMessage.timestamp || now 
     };
     this.messages.set(id, message);
     return message;
   }
+
+  async updateMessage(id: number, partialMessage: Partial<Message>): Promise<Message> {
+    const message = this.messages.get(id);
+    if (!message) {
+      throw new Error(`Message with id ${id} not found`);
+    }
+    
+    const updatedMessage = { ...message, ...partialMessage, id };
+    this.messages.set(id, updatedMessage);
+    return updatedMessage;
+  }
+
+  // Revision methods
+  async getRevisions(lessonId: number): Promise<Revision[]> {
+    return Array.from(this.revisions.values())
+      .filter((revision) => revision.lessonId === lessonId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createRevision(insertRevision: InsertRevision): Promise<Revision> {
+    const id = this.revisionId++;
+    const revision: Revision = {
+      ...insertRevision,
+      slideId: insertRevision.slideId ?? null,
+      id,
+      createdAt: new Date(),
+    } as Revision;
+    this.revisions.set(id, revision);
+    return revision;
+  }
+}
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database, sessionStore: session.Store) {
+    this.sessionStore = sessionStore;
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Lesson methods
+  async getLessons(): Promise<Lesson[]> {
+    return this.db.select().from(lessons).orderBy(asc(lessons.id));
+  }
+
+  async getLessonsByUserId(userId: number): Promise<Lesson[]> {
+    return this.db
+      .select()
+      .from(lessons)
+      .where(or(isNull(lessons.userId), eq(lessons.userId, userId)))
+      .orderBy(asc(lessons.id));
+  }
+
+  async getLesson(id: number): Promise<Lesson | undefined> {
+    const [lesson] = await this.db.select().from(lessons).where(eq(lessons.id, id));
+    return lesson;
+  }
+
+  async createLesson(insertLesson: InsertLesson): Promise<Lesson> {
+    const [lesson] = await this.db.insert(lessons).values(insertLesson).returning();
+    return lesson;
+  }
+
+  async updateLesson(id: number, partialLesson: Partial<Lesson>): Promise<Lesson> {
+    const { id: _id, createdAt: _createdAt, ...changes } = partialLesson;
+    const [updatedLesson] = await this.db
+      .update(lessons)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(lessons.id, id))
+      .returning();
+
+    if (!updatedLesson) {
+      throw new Error(`Lesson with id ${id} not found`);
+    }
+    return updatedLesson;
+  }
+
+  async deleteLesson(id: number): Promise<boolean> {
+    // Slides and chats reference the lesson, so remove them first
+    return this.db.transaction(async (tx) => {
+      const lessonChats = await tx.select({ id: chats.id }).from(chats).where(eq(chats.lessonId, id));
+      if (lessonChats.length > 0) {
+        const chatIds = lessonChats.map(chat => chat.id);
+        await tx.delete(messages).where(inArray(messages.chatId, chatIds));
+        await tx.delete(chats).where(inArray(chats.id, chatIds));
+      }
+      await tx.delete(slideProgress).where(eq(slideProgress.lessonId, id));
+      await tx.delete(revisions).where(eq(revisions.lessonId, id));
+      await tx.delete(slides).where(eq(slides.lessonId, id));
+
+      const deleted = await tx.delete(lessons).where(eq(lessons.id, id)).returning({ id: lessons.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Slide methods
+  async getSlide(id: number): Promise<Slide | undefined> {
+    const [slide] = await this.db.select().from(slides).where(eq(slides.id, id));
+    return slide;
+  }
+
+  async getSlidesByLessonId(lessonId: number): Promise<Slide[]> {
+    return this.db
+      .select()
+      .from(slides)
+      .where(eq(slides.lessonId, lessonId))
+      .orderBy(asc(slides.order), asc(slides.id));
+  }
+
+  async createSlide(insertSlide: InsertSlide): Promise<Slide> {
+    const [slide] = await this.db.insert(slides).values(insertSlide as typeof slides.$inferInsert).returning();
+    return slide;
+  }
+
+  async updateSlide(id: number, partialSlide: Partial<Slide>): Promise<Slide> {
+    const { id: _id, ...changes } = partialSlide;
+    if (Object.keys(changes).length === 0) {
+      const slide = await this.getSlide(id);
+      if (!slide) {
+        throw new Error(`Slide with id ${id} not found`);
+      }
+      return slide;
+    }
+
+    const [updatedSlide] = await this.db
+      .update(slides)
+      .set(changes)
+      .where(eq(slides.id, id))
+      .returning();
+
+    if (!updatedSlide) {
+      throw new Error(`Slide with id ${id} not found`);
+    }
+    return updatedSlide;
+  }
+
+  async deleteSlide(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(slideProgress).where(eq(slideProgress.slideId, id));
+      await tx.delete(revisions).where(eq(revisions.slideId, id));
+      const deleted = await tx.delete(slides).where(eq(slides.id, id)).returning({ id: slides.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Slide progress methods
+  async getSlideProgress(userId: number, lessonId: number): Promise<SlideProgress[]> {
+    return this.db
+      .select()
+      .from(slideProgress)
+      .where(and(eq(slideProgress.userId, userId), eq(slideProgress.lessonId, lessonId)));
+  }
+
+  async upsertSlideProgress(insertProgress: InsertSlideProgress): Promise<SlideProgress> {
+    const values = insertProgress as typeof slideProgress.$inferInsert;
+    const { userId: _userId, slideId: _slideId, ...changes } = values;
+    const [progress] = await this.db
+      .insert(slideProgress)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [slideProgress.userId, slideProgress.slideId],
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return progress;
+  }
+
+  // Chat methods
+  async getChat(id: number): Promise<Chat | undefined> {
+    const [chat] = await this.db.select().from(chats).where(eq(chats.id, id));
+    return chat;
+  }
+
+  async getChatByLessonId(lessonId: number, userId?: number): Promise<Chat | undefined> {
+    const [chat] = await this.db
+      .select()
+      .from(chats)
+      .where(userId === undefined
+        ? eq(chats.lessonId, lessonId)
+        : and(eq(chats.lessonId, lessonId), eq(chats.userId, userId)))
+      .orderBy(asc(chats.id))
+      .limit(1);
+    return chat;
+  }
+
+  async createChat(insertChat: InsertChat): Promise<Chat> {
+    const [chat] = await this.db.insert(chats).values(insertChat as typeof chats.$inferInsert).returning();
+    return chat;
+  }
+
+  async updateChat(id: number, partialChat: Partial<Chat>): Promise<Chat> {
+    const { id: _id, createdAt: _createdAt, ...changes } = partialChat;
+    const [updatedChat] = await this.db
+      .update(chats)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(chats.id, id))
+      .returning();
+
+    if (!updatedChat) {
+      throw new Error(`Chat with id ${id} not found`);
+    }
+    return updatedChat;
+  }
+
+  async deleteChat(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(messages).where(eq(messages.chatId, id));
+      const deleted = await tx.delete(chats).where(eq(chats.id, id)).returning({ id: chats.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Message methods
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async getMessagesByChatId(chatId: number): Promise<Message[]> {
+    return this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.chatId, chatId))
+      .orderBy(asc(messages.timestamp), asc(messages.id));
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    const [message] = await this.db.insert(messages).values(insertMessage as typeof messages.$inferInsert).returning();
+    return message;
+  }
+
+  async updateMessage(id: number, partialMessage: Partial<Message>): Promise<Message> {
+    const { id: _id, ...changes } = partialMessage;
+    const [updatedMessage] = await this.db
+      .update(messages)
+      .set(changes)
+      .where(eq(messages.id, id))
+      .returning();
+
+    if (!updatedMessage) {
+      throw new Error(`Message with id ${id} not found`);
+    }
+    return updatedMessage;
+  }
+
+  // Revision methods
+  async getRevisions(lessonId: number): Promise<Revision[]> {
+    return this.db
+      .select()
+      .from(revisions)
+      .where(eq(revisions.lessonId, lessonId))
+      .orderBy(asc(revisions.id));
+  }
+
+  async createRevision(insertRevision: InsertRevision): Promise<Revision> {
+    const [revision] = await this.db.insert(revisions).values(insertRevision as typeof revisions.$inferInsert).returning();
+    return revision;
+  }
+}
+
+// Shape of the JSON document written by FileStorage
+interface StorageSnapshot {
+  version: 1;
+  savedAt: string;
+  counters: {
+    userId: number;
+    lessonId: number;
+    slideId: number;
+    slideProgressId?: number;
+    chatId: number;
+    messageId: number;
+    revisionId?: number;
+  };
+  users: User[];
+  lessons: Lesson[];
+  slides: Slide[];
+  slideProgress?: SlideProgress[];
+  chats: Chat[];
+  messages: Message[];
+  revisions?: Revision[];
+}
+
+// Fields that are stored as ISO strings and need to be turned back into Dates
+const SNAPSHOT_DATE_FIELDS = new Set(["createdAt", "updatedAt", "timestamp", "completedAt"]);
+
+/**
+ * Persists everything to a directory of JSON files for installs without Postgres.
+ * Data is kept in memory and the whole store is rewritten after every change:
+ * the new state goes to a temp file that is renamed over `store.json`, and the
+ * previous version is kept under `snapshots/` so a bad write can be rolled back.
+ */
+export class FileStorage extends MemStorage {
+  private storeFile: string;
+  private snapshotDir: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private dataDir: string, private maxSnapshots: number = 10) {
+    super();
+    this.storeFile = path.join(dataDir, "store.json");
+    this.snapshotDir = path.join(dataDir, "snapshots");
+
+    fs.mkdirSync(this.snapshotDir, { recursive: true });
+    this.load();
+  }
+
+  // Load the current store, falling back to the newest readable snapshot
+  private load() {
+    const candidates = [
+      this.storeFile,
+      ...this.listSnapshots().reverse().map(name => path.join(this.snapshotDir, name)),
+    ];
+
+    for (const file of candidates) {
+      if (!fs.existsSync(file)) continue;
+
+      try {
+        const snapshot = JSON.parse(fs.readFileSync(file, "utf8"), (key, value) =>
+          SNAPSHOT_DATE_FIELDS.has(key) && typeof value === "string" ? new Date(value) : value
+        ) as StorageSnapshot;
+        this.restore(snapshot);
+
+        if (file !== this.storeFile) {
+          console.warn(`[FileStorage] ${this.storeFile} was unreadable, restored from ${file}`);
+        }
+        return;
+      } catch (error) {
+        console.error(`[FileStorage] Failed to read ${file}:`, error);
+      }
+    }
+
+    console.log(`[FileStorage] No existing data in ${this.dataDir}, starting with sample data`);
+  }
+
+  private restore(snapshot: StorageSnapshot) {
+    this.users = new Map(snapshot.users.map(user => [user.id, user]));
+    this.lessons = new Map(snapshot.lessons.map(lesson => [lesson.id, lesson]));
+    this.slides = new Map(snapshot.slides.map(slide => [slide.id, slide]));
+    this.slideProgress = new Map((snapshot.slideProgress || []).map(progress => [progress.id, progress]));
+    this.chats = new Map(snapshot.chats.map(chat => [chat.id, chat]));
+    this.messages = new Map(snapshot.messages.map(message => [message.id, message]));
+    this.revisions = new Map((snapshot.revisions || []).map(revision => [revision.id, revision]));
+
+    this.userId = snapshot.counters.userId;
+    this.lessonId = snapshot.counters.lessonId;
+    this.slideId = snapshot.counters.slideId;
+    this.slideProgressId = snapshot.counters.slideProgressId || 1;
+    this.chatId = snapshot.counters.chatId;
+    this.messageId = snapshot.counters.messageId;
+    this.revisionId = snapshot.counters.revisionId || 1;
+  }
+
+  private toSnapshot(): StorageSnapshot {
+    return {
+      version: 1,
+      savedAt: new Date().toISOString(),
+      counters: {
+        userId: this.userId,
+        lessonId: this.lessonId,
+        slideId: this.slideId,
+        slideProgressId: this.slideProgressId,
+        chatId: this.chatId,
+        messageId: this.messageId,
+        revisionId: this.revisionId,
+      },
+      users: Array.from(this.users.values()),
+      lessons: Array.from(this.lessons.values()),
+      slides: Array.from(this.slides.values()),
+      slideProgress: Array.from(this.slideProgress.values()),
+      chats: Array.from(this.chats.values()),
+      messages: Array.from(this.messages.values()),
+      revisions: Array.from(this.revisions.values()),
+    };
+  }
+
+  // Snapshot file names sort chronologically, oldest first
+  private listSnapshots(): string[] {
+    if (!fs.existsSync(this.snapshotDir)) return [];
+    return fs.readdirSync(this.snapshotDir)
+      .filter(name => name.startsWith("store-") && name.endsWith(".json"))
+      .sort();
+  }
+
+  private async writeSnapshot(data: string) {
+    const tempFile = `${this.storeFile}.${process.pid}.tmp`;
+
+    // Write and flush the new state before it replaces anything
+    const handle = await fs.promises.open(tempFile, "w");
+    try {
+      await handle.writeFile(data, "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    // Keep the previous version around before swapping in the new one
+    if (fs.existsSync(this.storeFile)) {
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      await fs.promises.copyFile(this.storeFile, path.join(this.snapshotDir, `store-${stamp}.json`));
+    }
+
+    await fs.promises.rename(tempFile, this.storeFile);
+
+    // Prune old snapshots
+    const snapshots = this.listSnapshots();
+    for (const name of snapshots.slice(0, Math.max(0, snapshots.length - this.maxSnapshots))) {
+      await fs.promises.unlink(path.join(this.snapshotDir, name));
+    }
+  }
+
+  // Apply `change` once earlier writes have finished and persist the result. If
+  // the write fails the change is rolled back, so memory never runs ahead of disk.
+  private commit<T>(change: () => Promise<T>): Promise<T> {
+    const write = this.writeQueue.then(async () => {
+      const before = this.toSnapshot();
+      const result = await change();
+      try {
+        await this.writeSnapshot(JSON.stringify(this.toSnapshot(), null, 2));
+      } catch (error) {
+        console.error("[FileStorage] Failed to write store, rolling back the change:", error);
+        this.restore(before);
+        throw error;
+      }
+      return result;
+    });
+    // Later writes go ahead whether or not this one succeeded
+    this.writeQueue = write.then(() => undefined, () => undefined);
+    return write;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return this.commit(() => super.createUser(insertUser));
+  }
+
+  async createLesson(insertLesson: InsertLesson): Promise<Lesson> {
+    return this.commit(() => super.createLesson(insertLesson));
+  }
+
+  async updateLesson(id: number, partialLesson: Partial<Lesson>): Promise<Lesson> {
+    return this.commit(() => super.updateLesson(id, partialLesson));
+  }
+
+  async deleteLesson(id: number): Promise<boolean> {
+    return this.commit(() => super.deleteLesson(id));
+  }
+
+  async createSlide(insertSlide: InsertSlide): Promise<Slide> {
+    return this.commit(() => super.createSlide(insertSlide));
+  }
+
+  async updateSlide(id: number, partialSlide: Partial<Slide>): Promise<Slide> {
+    return this.commit(() => super.updateSlide(id, partialSlide));
+  }
+
+  async deleteSlide(id: number): Promise<boolean> {
+    return this.commit(() => super.deleteSlide(id));
+  }
+
+  async upsertSlideProgress(insertProgress: InsertSlideProgress): Promise<SlideProgress> {
+    return this.commit(() => super.upsertSlideProgress(insertProgress));
+  }
+
+  async createChat(insertChat: InsertChat): Promise<Chat> {
+    return this.commit(() => super.createChat(insertChat));
+  }
+
+  async updateChat(id: number, partialChat: Partial<Chat>): Promise<Chat> {
+    return this.commit(() => super.updateChat(id, partialChat));
+  }
+
+  async deleteChat(id: number): Promise<boolean> {
+    return this.commit(() => super.deleteChat(id));
+  }
+
+  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+    return this.commit(() => super.createMessage(insertMessage));
+  }
+
+  async updateMessage(id: number, partialMessage: Partial<Message>): Promise<Message> {
+    return this.commit(() => super.updateMessage(id, partialMessage));
+  }
+
+  async createRevision(insertRevision: InsertRevision): Promise<Revision> {
+    return this.commit(() => super.createRevision(insertRevision));
+  }
+}
+
+/**
+ * Pick the storage driver at startup:
+ * - DATABASE_URL set: Postgres via Drizzle
+ * - STORAGE_DIR set: JSON files in that directory
+ * - otherwise: in-memory only
+ */
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    const db = createDb(process.env.DATABASE_URL);
+    return new DbStorage(db, new PostgresSessionStore({ pool: db.$client, createTableIfMissing: true }));
+  }
+  if (process.env.STORAGE_DIR) {
+    const maxSnapshots = parseInt(process.env.STORAGE_SNAPSHOTS || "", 10);
+    return new FileStorage(process.env.STORAGE_DIR, Number.isNaN(maxSnapshots) ? undefined : maxSnapshots);
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = createStorage();
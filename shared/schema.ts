@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,6 +16,7 @@ export const lessons = pgTable("lessons", {
   styleName: text("style_name"), // Brown Markdown, Neon Racer, etc.
   cssContent: text("css_content"), // Shared CSS across all slides
   jsContent: text("js_content"), // Shared JavaScript across all slides
+  userId: integer("user_id").references(() => users.id), // Owner; null for shared sample lessons
 });
 
 export const insertLessonSchema = createInsertSchema(lessons).omit({
@@ -33,17 +34,21 @@ export const slides = pgTable("slides", {
   type: text("type").notNull().default("info"),
   order: integer("order").notNull(),
   tags: json("tags").$type<string[]>().default([]),
-  completed: boolean("completed").notNull().default(false),
   initialCode: text("initial_code"),
   filename: text("filename"),
   cssContent: text("css_content"),
   jsContent: text("js_content"),
+  files: json("files").$type<{
+    name: string;
+    content: string;
+  }[]>().default([]), // Multi-file web workspace (index.html, style.css, script.js)
   tests: json("tests").$type<{
     id: string;
     name: string;
     description: string;
     validation: string;
-    type: 'regex' | 'js';
+    type: 'regex' | 'js' | 'dom' | 'unit'; // dom tests run against the rendered preview page, unit tests are describe/it suites
+    file?: string; // Workspace file the test checks
   }[]>().default([]),
 });
 
@@ -51,11 +56,72 @@ export const insertSlideSchema = createInsertSchema(slides).omit({
   id: true
 });
 
+// Fields a user can change when editing a slide; the slide stays in its lesson
+export const updateSlideSchema = insertSlideSchema.omit({ lessonId: true }).extend({
+  type: z.enum(['info', 'challenge', 'quiz']),
+  tags: z.array(z.string()),
+  files: z.array(z.object({ name: z.string().min(1), content: z.string() })),
+  tests: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    validation: z.string(),
+    type: z.enum(['regex', 'js', 'dom', 'unit']),
+    file: z.string().optional(),
+  })),
+}).partial();
+
+// Per-student progress on a slide, one row per user and slide
+export const slideProgress = pgTable("slide_progress", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  lessonId: integer("lesson_id").notNull().references(() => lessons.id),
+  slideId: integer("slide_id").notNull().references(() => slides.id),
+  completed: boolean("completed").notNull().default(false),
+  lastCode: text("last_code"), // Most recent code the student ran against the tests
+  testResults: json("test_results").$type<{
+    id: string;
+    name: string;
+    passed: boolean;
+    message?: string;
+  }[]>().default([]),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("slide_progress_user_slide").on(table.userId, table.slideId),
+]);
+
+export const insertSlideProgressSchema = createInsertSchema(slideProgress).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// A slide planned in a lesson proposal, before any content is written
+export interface LessonOutlineSlide {
+  title: string;
+  type: 'info' | 'challenge' | 'quiz';
+}
+
+// Where a chat is in proposing a lesson: proposed -> style_chosen -> generating -> created
+export interface LessonProposal {
+  stage: 'proposed' | 'style_chosen' | 'generating' | 'created';
+  topic: string;
+  difficulty: string;
+  outline: LessonOutlineSlide[];
+  style?: string; // Set once chosen
+  jobId?: string; // Set while generating
+  lessonId?: number; // Set once created
+}
+
 // Chats table
 export const chats = pgTable("chats", {
   id: serial("id").primaryKey(),
   lessonId: integer("lesson_id").references(() => lessons.id),
+  userId: integer("user_id").references(() => users.id),
   title: text("title").notNull(),
+  lessonProposal: json("lesson_proposal").$type<LessonProposal>(), // The lesson this chat is proposing, if any
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -66,12 +132,52 @@ export const insertChatSchema = createInsertSchema(chats).omit({
   updatedAt: true
 });
 
+// A style a lesson can be generated in, offered to the user to choose from
+export interface LessonStyleOption {
+  id: string; // e.g. neon-racer
+  name: string;
+  emoji: string;
+  description: string;
+}
+
+// Slide fields the assistant can propose changes to
+export const SLIDE_EDIT_FIELDS = ["title", "content", "type", "tags", "initialCode", "filename", "cssContent", "jsContent", "files", "tests"] as const;
+export type SlideEditField = typeof SLIDE_EDIT_FIELDS[number];
+
+// A change to a slide proposed by the assistant, applied only once the user accepts it
+export interface SlideEdit {
+  id: string;
+  lessonId: number;
+  slideId: number;
+  slideTitle: string;
+  tool?: string; // What proposed it, e.g. the updateSlide tool
+  status: 'pending' | 'accepted' | 'rejected';
+  before: Partial<Pick<Slide, SlideEditField>>; // The changed fields as they were when proposed
+  after: Partial<Pick<Slide, SlideEditField>>;
+}
+
+// Structured parts of an assistant reply that the client renders as UI rather than text
+export type MessageAction =
+  | { kind: 'choose_style'; topic: string; difficulty?: string; options: LessonStyleOption[] }
+  | { kind: 'lesson_job'; jobId: string } // A lesson is being generated in the background
+  | { kind: 'lesson_created'; lessonId: number; title: string }
+  | { kind: 'slide_edit'; edit: SlideEdit };
+
 // Messages table
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   chatId: integer("chat_id").notNull().references(() => chats.id),
   role: text("role").notNull().default("user"),
   content: text("content").notNull(),
+  toolCalls: json("tool_calls").$type<{
+    id: string;
+    name: string; // Tool the assistant called, e.g. updateSlide
+    args: Record<string, any>;
+    result: any;
+    status: 'success' | 'error';
+    step: number; // Round of the tool loop the call was made in
+  }[]>().default([]), // Actions the assistant took while writing this reply
+  actions: json("actions").$type<MessageAction[]>().default([]),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
 });
 
@@ -79,6 +185,44 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true
 });
 
+// What the user is looking at when they send a chat message, sent by the lesson page
+export const chatContextSchema = z.object({
+  slideId: z.coerce.number().int().positive().optional(), // The slide on screen
+  code: z.string().max(50_000).optional(), // The editor's current code
+  testResults: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    passed: z.boolean(),
+    message: z.string().optional(),
+  })).max(100).optional(), // The last run of the slide's tests
+});
+
+// Lesson fields recorded in the revision history
+export const LESSON_REVISION_FIELDS = ["title", "description", "difficulty", "language", "format", "estimatedTime", "styleName", "cssContent", "jsContent"] as const;
+
+// Who or what made a change recorded in the revision history
+export type RevisionSource =
+  | { kind: 'initial' } // The content as it was before its first recorded change
+  | { kind: 'user'; userId: number }
+  | { kind: 'assistant'; tool: string; chatId?: number; messageId?: number; userId?: number } // userId accepted the change
+  | { kind: 'restore'; userId: number; revision: number };
+
+// Revisions table: a slide or lesson as it was after each recorded change
+export const revisions = pgTable("revisions", {
+  id: serial("id").primaryKey(),
+  lessonId: integer("lesson_id").notNull().references(() => lessons.id),
+  slideId: integer("slide_id").references(() => slides.id), // Null for changes to the lesson itself
+  revision: integer("revision").notNull(), // Counts up from 1 for each slide and lesson
+  snapshot: json("snapshot").$type<Record<string, unknown>>().notNull(), // The recorded fields
+  source: json("source").$type<RevisionSource>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertRevisionSchema = createInsertSchema(revisions).omit({
+  id: true,
+  createdAt: true
+});
+
 // User type
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -98,11 +242,19 @@ export type InsertLesson = z.infer<typeof insertLessonSchema>;
 export type Slide = typeof slides.$inferSelect;
 export type InsertSlide = z.infer<typeof insertSlideSchema>;
 
+export type SlideProgress = typeof slideProgress.$inferSelect;
+export type InsertSlideProgress = z.infer<typeof insertSlideProgressSchema>;
+
 export type Chat = typeof chats.$inferSelect;
 export type InsertChat = z.infer<typeof insertChatSchema>;
 
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type ToolCallRecord = NonNullable<Message["toolCalls"]>[number];
+export type ChatContext = z.infer<typeof chatContextSchema>;
+
+export type Revision = typeof revisions.$inferSelect;
+export type InsertRevision = z.infer<typeof insertRevisionSchema>;
 
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
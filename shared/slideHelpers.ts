@@ -0,0 +1,118 @@
+/**
+ * Helpers that slide HTML calls from inline handlers: hint toggles, tabs and
+ * multiple-choice quizzes (`selectOption`, `checkAnswer`).
+ *
+ * Kept as source text so the lesson viewer and the offline lesson export run
+ * the same code next to the slide content.
+ */
+export const SLIDE_HELPER_SCRIPT = String.raw`
+// Initialize global variables
+window.selectedOption = '';
+
+// Define global helper functions for interactive elements
+window.toggleHint = function() {
+  const hintContent = document.getElementById('hint-content');
+  const hintButton = document.querySelector('.hint-toggle');
+
+  if (hintContent.style.display === 'block') {
+    hintContent.style.display = 'none';
+    hintButton.innerHTML = '<span class="hint-icon">💡</span> Show Hint';
+  } else {
+    hintContent.style.display = 'block';
+    hintButton.innerHTML = '<span class="hint-icon">💡</span> Hide Hint';
+  }
+};
+
+window.showTab = function(evt, tabId) {
+  // Hide all tab content
+  var tabContents = document.getElementsByClassName("tab-content");
+  for (var i = 0; i < tabContents.length; i++) {
+    tabContents[i].classList.remove("active");
+  }
+
+  // Remove active class from all tab buttons
+  var tabBtns = document.getElementsByClassName("tab-btn");
+  for (var i = 0; i < tabBtns.length; i++) {
+    tabBtns[i].classList.remove("active");
+  }
+
+  // Show the selected tab and add active class to the button
+  if (document.getElementById(tabId)) {
+    document.getElementById(tabId).classList.add("active");
+    evt.currentTarget.classList.add("active");
+  }
+};
+
+window.selectOption = function(option) {
+  // Define selectedOption on window if it doesn't exist
+  if (!('selectedOption' in window)) {
+    window.selectedOption = '';
+  }
+  window.selectedOption = option;
+  const checkAnswerBtn = document.getElementById('check-answer');
+  if (checkAnswerBtn) checkAnswerBtn.disabled = false;
+};
+
+window.checkAnswer = function() {
+  if (!window.selectedOption) return;
+
+  // For demo purposes, we'll consider A as the correct answer
+  const optionA = document.querySelector('.quiz-option[data-option="A"]');
+  const optionB = document.querySelector('.quiz-option[data-option="B"]');
+  const optionC = document.querySelector('.quiz-option[data-option="C"]');
+  const optionD = document.querySelector('.quiz-option[data-option="D"]');
+
+  // Reset all options first
+  [optionA, optionB, optionC, optionD].forEach(opt => {
+    if (opt) {
+      opt.classList.remove('correct', 'incorrect');
+    }
+  });
+
+  // Mark selected option using variable to avoid template literal issues
+  let selectedOption = null;
+  if (window.selectedOption) {
+    selectedOption = document.querySelector('.quiz-option[data-option="' + window.selectedOption + '"]');
+  }
+
+  if (window.selectedOption === 'A') {
+    // Correct answer
+    if (selectedOption) {
+      selectedOption.classList.add('correct');
+    }
+    document.getElementById('feedback-correct').style.display = 'flex';
+    document.getElementById('feedback-incorrect').style.display = 'none';
+  } else {
+    // Incorrect answer
+    if (selectedOption) {
+      selectedOption.classList.add('incorrect');
+    }
+    if (optionA) {
+      optionA.classList.add('correct'); // Show correct answer
+    }
+    document.getElementById('feedback-incorrect').style.display = 'flex';
+    document.getElementById('feedback-correct').style.display = 'none';
+  }
+
+  document.getElementById('check-answer').style.display = 'none';
+  document.getElementById('next-question').style.display = 'block';
+};
+
+window.nextQuestion = function() {
+  alert('This would navigate to the next question in a full implementation');
+};
+
+// Initialize quiz elements if they exist
+if (document.getElementById('check-answer')) {
+  document.getElementById('check-answer').disabled = true;
+}
+if (document.getElementById('next-question')) {
+  document.getElementById('next-question').style.display = 'none';
+}
+if (document.getElementById('feedback-correct')) {
+  document.getElementById('feedback-correct').style.display = 'none';
+}
+if (document.getElementById('feedback-incorrect')) {
+  document.getElementById('feedback-incorrect').style.display = 'none';
+}
+`;
@@ -0,0 +1,41 @@
+/**
+ * One-line challenge test definitions, as teachers write them. Shared so the
+ * lesson page and Markdown lesson imports read them the same way.
+ */
+import type { Slide } from './schema';
+
+export type TestDefinition = NonNullable<Slide['tests']>[number];
+
+const parseTestType = (type?: string): TestDefinition['type'] =>
+  type === 'js' || type === 'dom' || type === 'unit' ? type : 'regex';
+
+/**
+ * Parse test definitions from a string
+ * Format: Test name | Description | validation code or regex | type (regex, js, dom or unit)
+ */
+export const parseTests = (testDefinitions: string): TestDefinition[] => {
+  if (!testDefinitions) return [];
+  
+  return testDefinitions.split('\n')
+    .filter(line => line.trim())
+    .map((line, index) => {
+      const parts = line.split('|').map(part => part.trim());
+      if (parts.length < 3) {
+        return {
+          id: `test-${index + 1}`,
+          name: parts[0] || `Test ${index + 1}`,
+          description: parts[1] || '',
+          validation: parts[2] || '',
+          type: parseTestType(parts[3])
+        };
+      }
+      
+      return {
+        id: `test-${index + 1}`,
+        name: parts[0],
+        description: parts[1],
+        validation: parts[2],
+        type: parseTestType(parts[3])
+      };
+    });
+};
@@ -0,0 +1,253 @@
+/**
+ * A small Mocha/Chai-style test runtime for `unit` challenge tests.
+ *
+ * It is kept as source text so the browser worker and the server sandbox can both
+ * evaluate it inside their own isolated realm. Evaluating it yields a function
+ * `(code, suite) => { passed, message }` that runs the student's code and then a
+ * `describe`/`it` suite nested in its scope, so the suite can call the student's
+ * functions directly or through `exports`.
+ */
+export const UNIT_TEST_RUNTIME = String.raw`(function (code, suite) {
+  // The student's code runs in this realm and may patch built-ins, so the
+  // runtime only uses references saved before it runs
+  var apply = Reflect.apply;
+  var stringify = JSON.stringify;
+  var toString = String;
+  var toObject = Object;
+  var keysOf = Object.keys;
+  var defineProperty = Object.defineProperty;
+  var isArray = Array.isArray;
+  var isNotANumber = isNaN;
+  var hasOwn = Object.prototype.hasOwnProperty;
+  var join = Array.prototype.join;
+  var some = Array.prototype.some;
+  var arrayIndexOf = Array.prototype.indexOf;
+  var stringIndexOf = String.prototype.indexOf;
+  var toLowerCase = String.prototype.toLowerCase;
+  var RegExpType = RegExp;
+  var regExpTest = RegExp.prototype.test;
+  // Defined rather than assigned, so setters added to Array.prototype can't intercept it
+  var append = function (list, value) {
+    defineProperty(list, list.length, { __proto__: null, value: value, writable: true, enumerable: true, configurable: true });
+  };
+  var call = function (method, self) {
+    var args = [];
+    for (var i = 2; i < arguments.length; i++) append(args, arguments[i]);
+    return apply(method, self, args);
+  };
+
+  var format = function (value) {
+    if (typeof value === 'string') return stringify(value);
+    if (typeof value === 'function') return '[Function' + (value.name ? ': ' + value.name : '') + ']';
+    if (value === undefined) return 'undefined';
+    if (typeof value === 'number' || typeof value === 'boolean' || value === null) return toString(value);
+    try { return stringify(value); } catch (e) { return toString(value); }
+  };
+
+  var deepEqual = function (a, b) {
+    if (a === b) return true;
+    if (typeof a === 'number' && typeof b === 'number') return isNotANumber(a) && isNotANumber(b);
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (isArray(a) !== isArray(b)) return false;
+    var keysA = keysOf(a);
+    var keysB = keysOf(b);
+    if (keysA.length !== keysB.length) return false;
+    for (var i = 0; i < keysA.length; i++) {
+      if (!call(hasOwn, b, keysA[i]) || !deepEqual(a[keysA[i]], b[keysA[i]])) return false;
+    }
+    return true;
+  };
+
+  var AssertionError = function (message, expected, actual, showDiff) {
+    this.name = 'AssertionError';
+    this.message = message;
+    this.expected = expected;
+    this.actual = actual;
+    this.showDiff = !!showDiff;
+  };
+
+  var expect = function (actual) {
+    var flags = { negate: false, deep: false };
+    var assertion = {};
+
+    var check = function (pass, description, expected, showDiff) {
+      if (flags.negate ? pass : !pass) {
+        var message = 'expected ' + format(actual) + (flags.negate ? ' not ' : ' ') + description;
+        throw new AssertionError(message, expected, actual, showDiff && !flags.negate);
+      }
+      return assertion;
+    };
+
+    var chainWords = ['to', 'be', 'been', 'is', 'that', 'which', 'and', 'has', 'have', 'with', 'of', 'same'];
+    for (var w = 0; w < chainWords.length; w++) {
+      defineProperty(assertion, chainWords[w], { get: function () { return assertion; } });
+    }
+    defineProperty(assertion, 'not', { get: function () { flags.negate = !flags.negate; return assertion; } });
+    defineProperty(assertion, 'deep', { get: function () { flags.deep = true; return assertion; } });
+
+    var getters = {
+      ok: function () { return check(!!actual, 'to be truthy'); },
+      true: function () { return check(actual === true, 'to be true', true, true); },
+      false: function () { return check(actual === false, 'to be false', false, true); },
+      null: function () { return check(actual === null, 'to be null', null, true); },
+      undefined: function () { return check(actual === undefined, 'to be undefined', undefined, true); },
+      NaN: function () { return check(typeof actual === 'number' && isNotANumber(actual), 'to be NaN'); },
+      exist: function () { return check(actual !== null && actual !== undefined, 'to exist'); },
+      empty: function () {
+        var size = typeof actual === 'string' || isArray(actual) ? actual.length : keysOf(actual || {}).length;
+        return check(size === 0, 'to be empty');
+      }
+    };
+    var getterNames = keysOf(getters);
+    for (var g = 0; g < getterNames.length; g++) {
+      defineProperty(assertion, getterNames[g], { get: getters[getterNames[g]] });
+    }
+
+    assertion.equal = assertion.equals = function (expected) {
+      if (flags.deep) return check(deepEqual(actual, expected), 'to deeply equal ' + format(expected), expected, true);
+      return check(actual === expected, 'to equal ' + format(expected), expected, true);
+    };
+    assertion.eql = function (expected) {
+      return check(deepEqual(actual, expected), 'to deeply equal ' + format(expected), expected, true);
+    };
+    assertion.a = assertion.an = function (type) {
+      var actualType = isArray(actual) ? 'array' : actual === null ? 'null' : typeof actual;
+      return check(actualType === call(toLowerCase, toString(type)), 'to be a ' + type);
+    };
+    assertion.include = assertion.contain = assertion.includes = assertion.contains = function (value) {
+      var found = typeof actual === 'string'
+        ? call(stringIndexOf, actual, value) !== -1
+        : isArray(actual)
+          ? call(some, actual, function (item) { return flags.deep ? deepEqual(item, value) : item === value; })
+          : false;
+      return check(found, 'to include ' + format(value));
+    };
+    assertion.lengthOf = assertion.length = function (length) {
+      var actualLength = actual && actual.length;
+      return check(actualLength === length, 'to have length ' + length + ' but got ' + actualLength, length, true);
+    };
+    assertion.above = assertion.greaterThan = assertion.gt = function (value) {
+      return check(actual > value, 'to be above ' + format(value));
+    };
+    assertion.below = assertion.lessThan = assertion.lt = function (value) {
+      return check(actual < value, 'to be below ' + format(value));
+    };
+    assertion.least = assertion.gte = function (value) {
+      return check(actual >= value, 'to be at least ' + format(value));
+    };
+    assertion.most = assertion.lte = function (value) {
+      return check(actual <= value, 'to be at most ' + format(value));
+    };
+    assertion.match = function (pattern) {
+      return check(call(regExpTest, pattern, toString(actual)), 'to match ' + toString(pattern));
+    };
+    assertion.oneOf = function (list) {
+      return check(call(arrayIndexOf, list, actual) !== -1, 'to be one of ' + format(list));
+    };
+    assertion.property = function (name, value) {
+      var has = actual !== null && actual !== undefined && name in toObject(actual);
+      if (arguments.length < 2) return check(has, 'to have property ' + format(name));
+      return check(has && actual[name] === value, 'to have property ' + format(name) + ' of ' + format(value), value, true);
+    };
+    assertion.throw = assertion.throws = function (expectedMessage) {
+      var thrown = null;
+      try { actual(); } catch (e) { thrown = e; }
+      if (expectedMessage === undefined || !thrown) return check(!!thrown, 'to throw an error');
+      var message = thrown && thrown.message !== undefined ? toString(thrown.message) : toString(thrown);
+      var matches = expectedMessage instanceof RegExpType ? call(regExpTest, expectedMessage, message) : call(stringIndexOf, message, expectedMessage) !== -1;
+      return check(matches, 'to throw ' + format(toString(expectedMessage)) + ' but it threw ' + format(message));
+    };
+
+    return assertion;
+  };
+
+  var assert = function (value, message) {
+    if (!value) throw new AssertionError(message || 'expected ' + format(value) + ' to be truthy');
+  };
+  assert.ok = assert;
+  assert.equal = assert.strictEqual = function (actual, expected, message) {
+    if (actual !== expected) throw new AssertionError(message || 'expected ' + format(actual) + ' to equal ' + format(expected), expected, actual, true);
+  };
+  assert.notEqual = assert.notStrictEqual = function (actual, expected, message) {
+    if (actual === expected) throw new AssertionError(message || 'expected ' + format(actual) + ' not to equal ' + format(expected));
+  };
+  assert.deepEqual = assert.deepStrictEqual = function (actual, expected, message) {
+    if (!deepEqual(actual, expected)) throw new AssertionError(message || 'expected ' + format(actual) + ' to deeply equal ' + format(expected), expected, actual, true);
+  };
+  assert.throws = function (fn, message) {
+    try { fn(); } catch (e) { return; }
+    throw new AssertionError(message || 'expected function to throw an error');
+  };
+
+  var titles = [];
+  var results = [];
+
+  var describe = function (title, body) {
+    append(titles, title);
+    try { body(); } finally { titles.length--; }
+  };
+
+  var it = function (title, body) {
+    var fullTitle = call(join, titles, ' ') + (titles.length > 0 ? ' ' : '') + title;
+    try {
+      var returned = body();
+      if (returned && typeof returned.then === 'function') {
+        throw new Error('async tests are not supported');
+      }
+      append(results, { title: fullTitle, passed: true });
+    } catch (e) {
+      var result = { title: fullTitle, passed: false, error: errorMessage(e) };
+      if (e && e.showDiff) {
+        result.expected = format(e.expected);
+        result.actual = format(e.actual);
+      }
+      append(results, result);
+    }
+  };
+
+  var errorMessage = function (e) {
+    return e && e.message !== undefined ? toString(e.message) : toString(e);
+  };
+
+  // The suite is nested in the code's scope so it can see the student's functions,
+  // and receives whatever the code ended up exporting
+  var module = { exports: {} };
+  var runSuite;
+  try {
+    runSuite = new Function('module', 'exports',
+      code + '\n;\nreturn function (describe, it, expect, assert, exports) {\n' + suite + '\n};'
+    )(module, module.exports);
+  } catch (e) {
+    return { passed: false, message: 'Your code threw an error before the tests could run: ' + errorMessage(e) };
+  }
+
+  try {
+    runSuite(describe, it, expect, assert, module.exports);
+  } catch (e) {
+    append(results, { title: 'suite', passed: false, error: errorMessage(e) });
+  }
+
+  if (results.length === 0) {
+    return { passed: false, message: 'No tests found in this suite' };
+  }
+
+  var lines = [];
+  var failures = 0;
+  for (var r = 0; r < results.length; r++) {
+    var result = results[r];
+    append(lines, (result.passed ? '✓ ' : '✗ ') + result.title);
+    if (!result.passed) {
+      failures++;
+      append(lines, '    ' + result.error);
+      if (result.expected !== undefined) {
+        append(lines, '    expected: ' + result.expected);
+        append(lines, '    actual:   ' + result.actual);
+      }
+    }
+  }
+
+  return {
+    passed: failures === 0,
+    message: call(join, lines, '\n')
+  };
+})`;